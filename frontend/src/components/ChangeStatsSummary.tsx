@@ -0,0 +1,105 @@
+import type { ChangeStats, ChangeStatsEntry } from "../lib/types";
+
+interface ChangeStatsSummaryProps {
+  /** Statistics from getChangeStats() */
+  stats: ChangeStats;
+  /** Breakdowns to show (default: all) */
+  breakdowns?: Array<"author" | "day" | "section">;
+  className?: string;
+}
+
+const BREAKDOWN_TITLES = {
+  author: "By author",
+  day: "By day",
+  section: "By section",
+} as const;
+
+function StatsRow({
+  label,
+  entry,
+}: {
+  label: string;
+  entry: ChangeStatsEntry;
+}) {
+  return (
+    <tr>
+      <th scope="row" className="change-stats-label">
+        {label}
+      </th>
+      <td>{entry.changes}</td>
+      <td className="change-stats-inserted">
+        {entry.insertions} (+{entry.insertedCharacters})
+      </td>
+      <td className="change-stats-deleted">
+        {entry.deletions} (−{entry.deletedCharacters})
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Summary of tracked change statistics: totals plus per-author, per-day and
+ * per-section breakdowns of changes, insertions and deletions (with the
+ * number of characters inserted/deleted in brackets).
+ *
+ * @example
+ * ```tsx
+ * <ChangeStatsSummary stats={editorRef.current.getChangeStats()} />
+ * ```
+ */
+export function ChangeStatsSummary({
+  stats,
+  breakdowns = ["author", "day", "section"],
+  className,
+}: ChangeStatsSummaryProps) {
+  const groups = {
+    author: stats.byAuthor,
+    day: stats.byDay,
+    section: stats.bySection,
+  };
+
+  if (stats.total.changes === 0) {
+    return (
+      <div className={`change-stats ${className ?? ""}`}>
+        <p className="no-changes">No tracked changes in this document.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`change-stats ${className ?? ""}`}>
+      <table className="change-stats-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th scope="col">Changes</th>
+            <th scope="col">Insertions</th>
+            <th scope="col">Deletions</th>
+          </tr>
+        </thead>
+        <tbody>
+          <StatsRow label="Total" entry={stats.total} />
+        </tbody>
+        {breakdowns.map((breakdown) => {
+          const entries = Object.entries(groups[breakdown]);
+          // Days read best in order, the other breakdowns by size
+          entries.sort(([a, x], [b, y]) =>
+            breakdown === "day" ? a.localeCompare(b) : y.changes - x.changes,
+          );
+          return (
+            <tbody key={breakdown}>
+              <tr className="change-stats-heading">
+                <th colSpan={4}>{BREAKDOWN_TITLES[breakdown]}</th>
+              </tr>
+              {entries.map(([label, entry]) => (
+                <StatsRow key={label} label={label} entry={entry} />
+              ))}
+            </tbody>
+          );
+        })}
+      </table>
+    </div>
+  );
+}
+
+export default ChangeStatsSummary;
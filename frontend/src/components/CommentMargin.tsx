@@ -0,0 +1,329 @@
+import { Editor } from "@tiptap/react";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useComments } from "../lib/hooks/useComments";
+import type { CommentData, TrackedChange } from "../lib/types";
+
+interface CommentMarginProps {
+  editor: Editor | null;
+  comments: CommentData[];
+  /** Tracked changes to show as balloons alongside the comments */
+  changes?: TrackedChange[];
+  /** Show resolved threads too (default: false) */
+  showResolved?: boolean;
+  /** Minimum space between cards, in pixels (default: 8) */
+  gap?: number;
+  /** Custom card content for a comment thread */
+  renderComment?: (comment: CommentData, active: boolean) => React.ReactNode;
+  /** Custom balloon content for a tracked change */
+  renderChange?: (change: TrackedChange, active: boolean) => React.ReactNode;
+  className?: string;
+}
+
+type MarginItem =
+  | {
+      kind: "comment";
+      id: string;
+      from: number;
+      to: number;
+      comment: CommentData;
+    }
+  | {
+      kind: "change";
+      id: string;
+      from: number;
+      to: number;
+      change: TrackedChange;
+    };
+
+interface MarginLayout {
+  /** Card top, by item ID */
+  tops: Record<string, number>;
+  /** Bottom-left corner of the anchored text, by item ID */
+  anchors: Record<string, { x: number; y: number }>;
+}
+
+/** Where on a card its connector line ends */
+const CONNECTOR_OFFSET = 12;
+
+/**
+ * Where each comment's highlight (or, for deleted text, anchor) starts and
+ * ends
+ */
+function getCommentRanges(doc: PMNode) {
+  const ranges = new Map<string, { from: number; to: number }>();
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === "commentAnchor" && node.attrs.commentId) {
+      if (!ranges.has(node.attrs.commentId)) {
+        ranges.set(node.attrs.commentId, { from: pos, to: pos + 1 });
+      }
+      return;
+    }
+    if (!node.isText) return;
+    node.marks.forEach((mark) => {
+      const commentId = mark.attrs.commentId;
+      if (mark.type.name !== "comment" || !commentId) return;
+      const range = ranges.get(commentId);
+      const end = pos + node.nodeSize;
+      if (range) {
+        range.to = Math.max(range.to, end);
+      } else {
+        ranges.set(commentId, { from: pos, to: end });
+      }
+    });
+  });
+
+  return ranges;
+}
+
+/**
+ * Card tops: each card as close to its anchor as it can be without
+ * overlapping another. The active card sits exactly at its anchor; cards
+ * below it are pushed down and cards above it pushed up.
+ */
+function stackCards(
+  cards: { top: number; height: number }[],
+  activeIndex: number,
+  gap: number,
+): number[] {
+  const tops = cards.map((card) => card.top);
+  const pushDown = (start: number) => {
+    for (let i = start + 1; i < cards.length; i++) {
+      tops[i] = Math.max(cards[i].top, tops[i - 1] + cards[i - 1].height + gap);
+    }
+  };
+
+  const start = Math.max(activeIndex, 0);
+  pushDown(start);
+  for (let i = start - 1; i >= 0; i--) {
+    tops[i] = Math.min(cards[i].top, tops[i + 1] - cards[i].height - gap);
+  }
+
+  // Pushed above the top of the margin: stack from the top instead
+  if (tops.length > 0 && tops[0] < 0) {
+    tops[0] = 0;
+    pushDown(0);
+  }
+
+  return tops;
+}
+
+function sameLayout(a: MarginLayout, b: MarginLayout): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function formatDate(date: string | null): string {
+  return date ? new Date(date).toLocaleString() : "";
+}
+
+function DefaultCommentCard({ comment }: { comment: CommentData }) {
+  const replies = comment.replies?.length ?? 0;
+  return (
+    <>
+      <div className="comment-meta">
+        <span className="comment-author">{comment.author}</span>
+        <span className="comment-date">{formatDate(comment.date)}</span>
+      </div>
+      <div className="comment-text">{comment.text}</div>
+      {replies > 0 && (
+        <div className="comment-margin-replies">
+          {replies} {replies === 1 ? "reply" : "replies"}
+        </div>
+      )}
+    </>
+  );
+}
+
+function DefaultChangeBalloon({ change }: { change: TrackedChange }) {
+  return (
+    <>
+      <div className="comment-meta">
+        <span className={`change-type ${change.type}`}>{change.type}</span>
+        {change.author && (
+          <span className="comment-author">{change.author}</span>
+        )}
+      </div>
+      {change.text && (
+        <div className="change-comment-text">"{change.text}"</div>
+      )}
+      {change.reason && (
+        <div className="change-reason">Reason: {change.reason}</div>
+      )}
+    </>
+  );
+}
+
+/**
+ * Word-style margin: each comment card sits level with the text it's
+ * anchored to, next to the editor, with a connector line to that text.
+ * Cards that would overlap are stacked, the thread at the cursor is
+ * highlighted (and kept level with its text), and tracked changes can be
+ * shown as balloons in the same column.
+ *
+ * Place it beside the editor inside the same scrolling element, top-aligned
+ * with the editor, so the cards scroll with the text.
+ *
+ * @example
+ * ```tsx
+ * <div className="editor-with-margin">
+ *   <DocumentEditor ref={editorRef} ... />
+ *   <CommentMargin editor={editor} comments={comments} changes={changes} />
+ * </div>
+ * ```
+ */
+export function CommentMargin({
+  editor,
+  comments,
+  changes = [],
+  showResolved = false,
+  gap = 8,
+  renderComment,
+  renderChange,
+  className,
+}: CommentMarginProps) {
+  const { getCommentAtCursor } = useComments(editor);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+  const [docVersion, setDocVersion] = useState(0);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [layout, setLayout] = useState<MarginLayout>({ tops: {}, anchors: {} });
+
+  // Cards in document order
+  const items = useMemo((): MarginItem[] => {
+    if (!editor) return [];
+
+    const ranges = getCommentRanges(editor.state.doc);
+    const commentItems = comments.flatMap((comment): MarginItem[] => {
+      const range = ranges.get(comment.id);
+      if (!range || (comment.resolved && !showResolved)) return [];
+      return [{ kind: "comment", id: comment.id, ...range, comment }];
+    });
+    const changeItems = changes.map((change): MarginItem => ({
+      kind: "change",
+      id: change.id,
+      from: change.from,
+      to: change.to,
+      change,
+    }));
+
+    return [...commentItems, ...changeItems].sort((a, b) => a.from - b.from);
+    // docVersion: the ranges move as the document is edited
+  }, [editor, comments, changes, showResolved, docVersion]);
+
+  // Follow edits, the cursor and window resizes
+  useEffect(() => {
+    if (!editor) return;
+
+    const handleUpdate = () => setDocVersion((v) => v + 1);
+    const handleSelectionUpdate = () => {
+      const { from } = editor.state.selection;
+      const change = changes.find((c) => c.from <= from && from <= c.to);
+      setActiveId(getCommentAtCursor()[0] ?? change?.id ?? null);
+    };
+
+    editor.on("update", handleUpdate);
+    editor.on("selectionUpdate", handleSelectionUpdate);
+    window.addEventListener("resize", handleUpdate);
+    return () => {
+      editor.off("update", handleUpdate);
+      editor.off("selectionUpdate", handleSelectionUpdate);
+      window.removeEventListener("resize", handleUpdate);
+    };
+  }, [editor, changes, getCommentAtCursor]);
+
+  // Position the cards once they're rendered and can be measured
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!editor || !container) return;
+
+    const origin = container.getBoundingClientRect();
+    const maxPos = editor.state.doc.content.size;
+    const anchors: MarginLayout["anchors"] = {};
+
+    const cards = items.map((item) => {
+      const coords = editor.view.coordsAtPos(Math.min(item.from, maxPos));
+      anchors[item.id] = {
+        x: coords.left - origin.left,
+        y: coords.bottom - origin.top,
+      };
+      return {
+        top: coords.top - origin.top,
+        height: cardRefs.current.get(item.id)?.offsetHeight ?? 0,
+      };
+    });
+
+    const activeIndex = items.findIndex((item) => item.id === activeId);
+    const tops: MarginLayout["tops"] = {};
+    stackCards(cards, activeIndex, gap).forEach((top, i) => {
+      tops[items[i].id] = top;
+    });
+
+    const next = { tops, anchors };
+    setLayout((prev) => (sameLayout(prev, next) ? prev : next));
+  });
+
+  const handleSelect = (item: MarginItem) => {
+    if (!editor) return;
+    // Inside the range, so the cursor picks up the comment's mark
+    editor
+      .chain()
+      .focus()
+      .setTextSelection(Math.min(item.from + 1, item.to))
+      .scrollIntoView()
+      .run();
+    setActiveId(item.id);
+  };
+
+  if (!editor) return null;
+
+  return (
+    <div ref={containerRef} className={`comment-margin ${className ?? ""}`}>
+      <svg className="comment-margin-connectors" aria-hidden="true">
+        {items.map((item) => {
+          const anchor = layout.anchors[item.id];
+          const top = layout.tops[item.id];
+          if (!anchor || top === undefined) return null;
+          return (
+            <path
+              key={item.id}
+              className={`comment-margin-connector ${item.kind} ${
+                item.id === activeId ? "active" : ""
+              }`}
+              d={`M ${anchor.x} ${anchor.y} H ${-gap} L 0 ${top + CONNECTOR_OFFSET}`}
+            />
+          );
+        })}
+      </svg>
+
+      {items.map((item) => {
+        const active = item.id === activeId;
+        return (
+          <div
+            key={item.id}
+            ref={(el) => {
+              if (el) cardRefs.current.set(item.id, el);
+              else cardRefs.current.delete(item.id);
+            }}
+            className={`comment-margin-card ${item.kind} ${active ? "active" : ""} ${
+              item.kind === "comment" && item.comment.resolved ? "resolved" : ""
+            }`}
+            style={{ top: layout.tops[item.id] ?? 0 }}
+            data-margin-id={item.id}
+            onClick={() => handleSelect(item)}
+          >
+            {item.kind === "comment"
+              ? (renderComment?.(item.comment, active) ?? (
+                  <DefaultCommentCard comment={item.comment} />
+                ))
+              : (renderChange?.(item.change, active) ?? (
+                  <DefaultChangeBalloon change={item.change} />
+                ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default CommentMargin;
@@ -1,20 +1,138 @@
 import { Editor } from "@tiptap/react";
 import { useCallback, useState } from "react";
+import { getMentionQuery, parseMentions } from "../lib/utils/mentions";
+import type {
+  ChangeCommentData,
+  CommentData,
+  UserDirectory,
+} from "../lib/types";
 
-interface Comment {
+interface Change {
   id: string;
-  author: string;
-  date: string;
+  type: string;
+  author: string | null;
   text: string;
-  replies?: Comment[];
+  from: number;
+  reason?: string;
 }
 
+type CommentFilter = "open" | "resolved" | "all";
+
 interface CommentsPanelProps {
   editor: Editor | null;
-  comments: Comment[];
+  comments: CommentData[];
   onReply?: (commentId: string, text: string) => void;
   onDelete?: (commentId: string) => void;
   onResolve?: (commentId: string) => void;
+  onReopen?: (commentId: string) => void;
+  onEdit?: (commentId: string, text: string) => void;
+  onReact?: (commentId: string, emoji: string) => void;
+  /** People who can be @mentioned (enables suggestions and highlighting) */
+  users?: UserDirectory;
+  /** Current user, whose own reactions are highlighted */
+  currentUser?: string;
+  /** Emoji offered as reactions */
+  reactions?: string[];
+  /** Tracked changes whose reason/discussion should be listed */
+  changes?: Change[];
+  /** Comments attached to tracked changes (by changeId) */
+  changeComments?: ChangeCommentData[];
+  onAddChangeComment?: (changeId: string, text: string) => void;
+}
+
+const DEFAULT_REACTIONS = ["👍", "👎", "🎉", "❤️", "👀"];
+
+/**
+ * Comment text with @mentions of known people highlighted
+ */
+function CommentText({
+  text,
+  users,
+  className,
+}: {
+  text: string;
+  users?: UserDirectory;
+  className: string;
+}) {
+  const mentions = users ? parseMentions(text, users) : [];
+  const parts: React.ReactNode[] = [];
+  let index = 0;
+
+  for (const mention of mentions) {
+    parts.push(text.slice(index, mention.from));
+    parts.push(
+      <span
+        key={mention.from}
+        className="comment-mention"
+        title={text.slice(mention.from, mention.to)}
+      >
+        @{mention.user.name}
+      </span>,
+    );
+    index = mention.to;
+  }
+  parts.push(text.slice(index));
+
+  return <div className={className}>{parts}</div>;
+}
+
+/**
+ * Textarea that suggests people while an @mention is being typed
+ */
+function MentionTextarea({
+  value,
+  onChange,
+  users,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  users?: UserDirectory;
+  placeholder: string;
+}) {
+  const [caret, setCaret] = useState(0);
+
+  const query = users ? getMentionQuery(value, caret) : null;
+  const suggestions = query && users ? users.search(query.query).slice(0, 5) : [];
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    setCaret(e.target.selectionStart);
+  };
+
+  const handleSelect = (userId: string) => {
+    if (!query) return;
+    const mention = `@${userId} `;
+    onChange(value.slice(0, query.from) + mention + value.slice(caret));
+    setCaret(query.from + mention.length);
+  };
+
+  return (
+    <div className="mention-input">
+      <textarea
+        value={value}
+        onChange={handleChange}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        placeholder={placeholder}
+        rows={2}
+      />
+      {suggestions.length > 0 && (
+        <ul className="mention-suggestions">
+          {suggestions.map((user) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(user.id)}
+              >
+                {user.name} <span className="mention-handle">@{user.id}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 }
 
 export function CommentsPanel({
@@ -23,9 +141,30 @@ export function CommentsPanel({
   onReply,
   onDelete,
   onResolve,
+  onReopen,
+  onEdit,
+  onReact,
+  users,
+  currentUser,
+  reactions = DEFAULT_REACTIONS,
+  changes = [],
+  changeComments = [],
+  onAddChangeComment,
 }: CommentsPanelProps) {
+  const [filter, setFilter] = useState<CommentFilter>("open");
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [replyText, setReplyText] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [reactingTo, setReactingTo] = useState<string | null>(null);
+  const [commentingOn, setCommentingOn] = useState<string | null>(null);
+  const [changeCommentText, setChangeCommentText] = useState("");
+
+  // Changes worth listing: those with a recorded reason or a thread
+  const discussedChanges = changes.filter(
+    (change) =>
+      change.reason || changeComments.some((c) => c.changeId === change.id),
+  );
 
   const handleGoToComment = useCallback(
     (commentId: string) => {
@@ -36,6 +175,13 @@ export function CommentsPanel({
 
       doc.descendants((node, pos) => {
         if (found) return false;
+        // Comment whose text was deleted
+        if (node.type.name === "commentAnchor" && node.attrs.commentId === commentId) {
+          editor.commands.setTextSelection(pos);
+          editor.commands.scrollIntoView();
+          found = true;
+          return false;
+        }
         if (node.isText) {
           node.marks.forEach((mark) => {
             if (mark.type.name === "comment" && mark.attrs.commentId === commentId) {
@@ -50,6 +196,23 @@ export function CommentsPanel({
     [editor],
   );
 
+  const handleGoToChange = useCallback(
+    (change: Change) => {
+      if (!editor) return;
+      editor.commands.setTextSelection(change.from);
+      editor.commands.scrollIntoView();
+    },
+    [editor],
+  );
+
+  const handleSubmitChangeComment = (changeId: string) => {
+    if (onAddChangeComment && changeCommentText.trim()) {
+      onAddChangeComment(changeId, changeCommentText.trim());
+      setCommentingOn(null);
+      setChangeCommentText("");
+    }
+  };
+
   const handleStartReply = (commentId: string) => {
     setReplyingTo(commentId);
     setReplyText("");
@@ -68,6 +231,29 @@ export function CommentsPanel({
     }
   };
 
+  const handleStartEdit = (comment: CommentData) => {
+    setEditingId(comment.id);
+    setEditText(comment.text);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setEditText("");
+  };
+
+  const handleSubmitEdit = (commentId: string) => {
+    if (onEdit && editText.trim()) {
+      onEdit(commentId, editText.trim());
+      setEditingId(null);
+      setEditText("");
+    }
+  };
+
+  const handleReact = (commentId: string, emoji: string) => {
+    onReact?.(commentId, emoji);
+    setReactingTo(null);
+  };
+
   const formatDate = (dateStr: string) => {
     try {
       return new Date(dateStr).toLocaleDateString(undefined, {
@@ -82,26 +268,137 @@ export function CommentsPanel({
     }
   };
 
+  const renderEditForm = (commentId: string) => (
+    <div className="reply-form edit-form">
+      <MentionTextarea
+        value={editText}
+        onChange={setEditText}
+        users={users}
+        placeholder="Edit comment..."
+      />
+      <div className="reply-buttons">
+        <button
+          onClick={() => handleSubmitEdit(commentId)}
+          className="submit-reply-btn"
+          disabled={!editText.trim()}
+        >
+          Save
+        </button>
+        <button onClick={handleCancelEdit} className="cancel-reply-btn">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderEdited = (comment: CommentData) =>
+    comment.editedAt && (
+      <span className="comment-edited" title={formatDate(comment.editedAt)}>
+        (edited)
+      </span>
+    );
+
+  const renderReactions = (comment: CommentData) => {
+    const existing = (comment.reactions ?? []).filter((r) => r.users.length > 0);
+    if (existing.length === 0 && reactingTo !== comment.id) return null;
+
+    return (
+      <div className="comment-reactions">
+        {existing.map((reaction) => (
+          <button
+            key={reaction.emoji}
+            onClick={() => handleReact(comment.id, reaction.emoji)}
+            className={`reaction-btn ${
+              currentUser && reaction.users.includes(currentUser) ? "active" : ""
+            }`}
+            title={reaction.users.join(", ")}
+            disabled={!onReact}
+          >
+            {reaction.emoji} {reaction.users.length}
+          </button>
+        ))}
+        {reactingTo === comment.id &&
+          reactions.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => handleReact(comment.id, emoji)}
+              className="reaction-btn reaction-option"
+            >
+              {emoji}
+            </button>
+          ))}
+      </div>
+    );
+  };
+
   if (!editor) return null;
 
+  const openCount = comments.filter((c) => !c.resolved).length;
+  const resolvedCount = comments.length - openCount;
+  const visibleComments = comments.filter((comment) => {
+    if (filter === "all") return true;
+    return filter === "resolved" ? comment.resolved : !comment.resolved;
+  });
+
   return (
     <div className="comments-panel">
       <div className="comments-header">
         <h3>Comments ({comments.length})</h3>
+        <div className="comments-filter">
+          {(
+            [
+              ["open", `Open (${openCount})`],
+              ["resolved", `Resolved (${resolvedCount})`],
+              ["all", "All"],
+            ] as const
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`filter-btn ${filter === value ? "active" : ""}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {comments.length === 0 ? (
-        <p className="no-comments">No comments in this document.</p>
+      {visibleComments.length === 0 ? (
+        <p className="no-comments">
+          {comments.length === 0
+            ? "No comments in this document."
+            : `No ${filter === "resolved" ? "resolved" : "open"} comments.`}
+        </p>
       ) : (
         <ul className="comments-list">
-          {comments.map((comment) => (
-            <li key={comment.id} className="comment-item">
+          {visibleComments.map((comment) => (
+            <li
+              key={comment.id}
+              className={`comment-item ${comment.resolved ? "resolved" : ""}`}
+            >
               <div className="comment-main">
                 <div className="comment-meta">
                   <span className="comment-author">{comment.author}</span>
                   <span className="comment-date">{formatDate(comment.date)}</span>
+                  {renderEdited(comment)}
                 </div>
-                <div className="comment-text">{comment.text}</div>
+                {comment.resolved && (
+                  <div className="comment-resolved">
+                    Resolved
+                    {comment.resolvedBy && ` by ${comment.resolvedBy}`}
+                    {comment.resolvedAt && ` · ${formatDate(comment.resolvedAt)}`}
+                  </div>
+                )}
+                {editingId === comment.id ? (
+                  renderEditForm(comment.id)
+                ) : (
+                  <CommentText
+                    text={comment.text}
+                    users={users}
+                    className="comment-text"
+                  />
+                )}
+                {renderReactions(comment)}
                 <div className="comment-actions">
                   <button
                     onClick={() => handleGoToComment(comment.id)}
@@ -110,7 +407,7 @@ export function CommentsPanel({
                   >
                     Go to
                   </button>
-                  {onReply && (
+                  {onReply && !comment.resolved && (
                     <button
                       onClick={() => handleStartReply(comment.id)}
                       className="reply-btn"
@@ -119,7 +416,27 @@ export function CommentsPanel({
                       Reply
                     </button>
                   )}
-                  {onResolve && (
+                  {onReact && (
+                    <button
+                      onClick={() =>
+                        setReactingTo(reactingTo === comment.id ? null : comment.id)
+                      }
+                      className="react-btn"
+                      title="Add reaction"
+                    >
+                      React
+                    </button>
+                  )}
+                  {onEdit && !comment.resolved && (
+                    <button
+                      onClick={() => handleStartEdit(comment)}
+                      className="edit-btn"
+                      title="Edit comment"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {onResolve && !comment.resolved && (
                     <button
                       onClick={() => onResolve(comment.id)}
                       className="resolve-btn"
@@ -128,6 +445,15 @@ export function CommentsPanel({
                       Resolve
                     </button>
                   )}
+                  {onReopen && comment.resolved && (
+                    <button
+                      onClick={() => onReopen(comment.id)}
+                      className="reopen-btn"
+                      title="Reopen comment"
+                    >
+                      Reopen
+                    </button>
+                  )}
                   {onDelete && (
                     <button
                       onClick={() => onDelete(comment.id)}
@@ -143,11 +469,11 @@ export function CommentsPanel({
               {/* Reply form */}
               {replyingTo === comment.id && (
                 <div className="reply-form">
-                  <textarea
+                  <MentionTextarea
                     value={replyText}
-                    onChange={(e) => setReplyText(e.target.value)}
+                    onChange={setReplyText}
+                    users={users}
                     placeholder="Write a reply..."
-                    rows={2}
                   />
                   <div className="reply-buttons">
                     <button
@@ -172,8 +498,42 @@ export function CommentsPanel({
                       <div className="reply-meta">
                         <span className="reply-author">{reply.author}</span>
                         <span className="reply-date">{formatDate(reply.date)}</span>
+                        {renderEdited(reply)}
                       </div>
-                      <div className="reply-text">{reply.text}</div>
+                      {editingId === reply.id ? (
+                        renderEditForm(reply.id)
+                      ) : (
+                        <CommentText
+                          text={reply.text}
+                          users={users}
+                          className="reply-text"
+                        />
+                      )}
+                      {renderReactions(reply)}
+                      {!comment.resolved && (onEdit || onReact) && (
+                        <div className="comment-actions">
+                          {onReact && (
+                            <button
+                              onClick={() =>
+                                setReactingTo(reactingTo === reply.id ? null : reply.id)
+                              }
+                              className="react-btn"
+                              title="Add reaction"
+                            >
+                              React
+                            </button>
+                          )}
+                          {onEdit && (
+                            <button
+                              onClick={() => handleStartEdit(reply)}
+                              className="edit-btn"
+                              title="Edit reply"
+                            >
+                              Edit
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </li>
                   ))}
                 </ul>
@@ -182,6 +542,101 @@ export function CommentsPanel({
           ))}
         </ul>
       )}
+
+      {discussedChanges.length > 0 && (
+        <>
+          <div className="comments-header">
+            <h3>Change discussions ({discussedChanges.length})</h3>
+          </div>
+          <ul className="comments-list change-comments-list">
+            {discussedChanges.map((change) => (
+              <li key={change.id} className="comment-item change-comment-item">
+                <div className="comment-main">
+                  <div className="comment-meta">
+                    <span className={`change-type ${change.type}`}>
+                      {change.type}
+                    </span>
+                    <span className="comment-author">{change.author}</span>
+                  </div>
+                  <div className="change-comment-text">"{change.text}"</div>
+                  {change.reason && (
+                    <div className="change-reason">Reason: {change.reason}</div>
+                  )}
+                  <div className="comment-actions">
+                    <button
+                      onClick={() => handleGoToChange(change)}
+                      className="goto-btn"
+                      title="Go to change"
+                    >
+                      Go to
+                    </button>
+                    {onAddChangeComment && (
+                      <button
+                        onClick={() => {
+                          setCommentingOn(change.id);
+                          setChangeCommentText("");
+                        }}
+                        className="reply-btn"
+                        title="Comment on this change"
+                      >
+                        Comment
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Comment form */}
+                {commentingOn === change.id && (
+                  <div className="reply-form">
+                    <textarea
+                      value={changeCommentText}
+                      onChange={(e) => setChangeCommentText(e.target.value)}
+                      placeholder="Comment on this change..."
+                      rows={2}
+                    />
+                    <div className="reply-buttons">
+                      <button
+                        onClick={() => handleSubmitChangeComment(change.id)}
+                        className="submit-reply-btn"
+                        disabled={!changeCommentText.trim()}
+                      >
+                        Comment
+                      </button>
+                      <button
+                        onClick={() => setCommentingOn(null)}
+                        className="cancel-reply-btn"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Thread */}
+                <ul className="replies-list">
+                  {changeComments
+                    .filter((c) => c.changeId === change.id)
+                    .map((comment) => (
+                      <li key={comment.id} className="reply-item">
+                        <div className="reply-meta">
+                          <span className="reply-author">{comment.author}</span>
+                          <span className="reply-date">
+                            {formatDate(comment.date)}
+                          </span>
+                        </div>
+                        <CommentText
+                          text={comment.text}
+                          users={users}
+                          className="reply-text"
+                        />
+                      </li>
+                    ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
     </div>
   );
 }
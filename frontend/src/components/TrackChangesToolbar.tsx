@@ -1,5 +1,6 @@
 import { Editor } from "@tiptap/react";
 import { useCallback, useMemo, useState, useEffect } from "react";
+import { matchesChangeFilter } from "../lib/utils/changeFilter";
 
 interface TrackChangesToolbarProps {
   editor: Editor | null;
@@ -11,7 +12,7 @@ interface TrackChangesToolbarProps {
 
 interface Change {
   id: string;
-  type: "insertion" | "deletion";
+  type: "insertion" | "deletion" | "formatChange";
   author: string | null;
   date: string | null;
   text: string;
@@ -28,6 +29,7 @@ export function TrackChangesToolbar({
 }: TrackChangesToolbarProps) {
   const [isEditingAuthor, setIsEditingAuthor] = useState(false);
   const [tempAuthor, setTempAuthor] = useState(author);
+  const [authorFilter, setAuthorFilter] = useState("");
 
   // Sync track changes state with editor extension
   useEffect(() => {
@@ -59,10 +61,14 @@ export function TrackChangesToolbar({
     doc.descendants((node, pos) => {
       if (node.isText) {
         node.marks.forEach((mark) => {
-          if (mark.type.name === "insertion" || mark.type.name === "deletion") {
+          if (
+            mark.type.name === "insertion" ||
+            mark.type.name === "deletion" ||
+            mark.type.name === "formatChange"
+          ) {
             foundChanges.push({
               id: mark.attrs.id,
-              type: mark.type.name as "insertion" | "deletion",
+              type: mark.type.name as Change["type"],
               author: mark.attrs.author,
               date: mark.attrs.date,
               text: node.text || "",
@@ -83,14 +89,35 @@ export function TrackChangesToolbar({
     });
   }, [editor?.state.doc]);
 
+  const authors = useMemo(
+    () =>
+      Array.from(
+        new Set(changes.map((c) => c.author).filter((a): a is string => !!a)),
+      ),
+    [changes],
+  );
+
+  // Changes shown, and accepted/rejected in bulk, under the author filter
+  const visibleChanges = useMemo(
+    () =>
+      authorFilter
+        ? changes.filter((c) =>
+            matchesChangeFilter(c, { authors: [authorFilter] }),
+          )
+        : changes,
+    [changes, authorFilter],
+  );
+
   const handleAccept = useCallback(
     (change: Change) => {
       if (!editor) return;
 
       if (change.type === "insertion") {
         editor.commands.acceptInsertion(change.id);
-      } else {
+      } else if (change.type === "deletion") {
         editor.commands.acceptDeletion(change.id);
+      } else {
+        editor.commands.acceptFormatChange(change.id);
       }
     },
     [editor],
@@ -102,8 +129,10 @@ export function TrackChangesToolbar({
 
       if (change.type === "insertion") {
         editor.commands.rejectInsertion(change.id);
-      } else {
+      } else if (change.type === "deletion") {
         editor.commands.rejectDeletion(change.id);
+      } else {
+        editor.commands.rejectFormatChange(change.id);
       }
     },
     [editor],
@@ -112,26 +141,30 @@ export function TrackChangesToolbar({
   const handleAcceptAll = useCallback(() => {
     if (!editor) return;
 
-    changes.forEach((change) => {
+    visibleChanges.forEach((change) => {
       if (change.type === "insertion") {
         editor.commands.acceptInsertion(change.id);
-      } else {
+      } else if (change.type === "deletion") {
         editor.commands.acceptDeletion(change.id);
+      } else {
+        editor.commands.acceptFormatChange(change.id);
       }
     });
-  }, [editor, changes]);
+  }, [editor, visibleChanges]);
 
   const handleRejectAll = useCallback(() => {
     if (!editor) return;
 
-    changes.forEach((change) => {
+    visibleChanges.forEach((change) => {
       if (change.type === "insertion") {
         editor.commands.rejectInsertion(change.id);
-      } else {
+      } else if (change.type === "deletion") {
         editor.commands.rejectDeletion(change.id);
+      } else {
+        editor.commands.rejectFormatChange(change.id);
       }
     });
-  }, [editor, changes]);
+  }, [editor, visibleChanges]);
 
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return "";
@@ -203,8 +236,23 @@ export function TrackChangesToolbar({
       </div>
 
       <div className="track-changes-header">
-        <h3>Changes ({changes.length})</h3>
-        {changes.length > 0 && (
+        <h3>Changes ({visibleChanges.length})</h3>
+        {authors.length > 1 && (
+          <select
+            value={authorFilter}
+            onChange={(e) => setAuthorFilter(e.target.value)}
+            className="change-filter-select"
+            title="Show changes by author"
+          >
+            <option value="">All authors</option>
+            {authors.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+        {visibleChanges.length > 0 && (
           <div className="track-changes-actions">
             <button onClick={handleAcceptAll} className="accept-all-btn">
               Accept All
@@ -216,15 +264,19 @@ export function TrackChangesToolbar({
         )}
       </div>
 
-      {changes.length === 0 ? (
+      {visibleChanges.length === 0 ? (
         <p className="no-changes">No tracked changes in this document.</p>
       ) : (
         <ul className="changes-list">
-          {changes.map((change) => (
+          {visibleChanges.map((change) => (
             <li key={change.id} className={`change-item change-${change.type}`}>
               <div className="change-info">
                 <span className={`change-type ${change.type}`}>
-                  {change.type === "insertion" ? "Added" : "Deleted"}
+                  {change.type === "insertion"
+                    ? "Added"
+                    : change.type === "deletion"
+                      ? "Deleted"
+                      : "Formatted"}
                 </span>
                 <span className="change-text">"{change.text}"</span>
                 {change.author && (
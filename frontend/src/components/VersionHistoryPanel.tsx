@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { DocumentEditor } from "../lib/DocumentEditor";
+import type { UseVersionHistoryReturn } from "../lib/hooks/useVersionHistory";
+import type { TipTapDocument } from "../lib/types";
+
+interface VersionHistoryPanelProps {
+  /** Return value of useVersionHistory() */
+  history: UseVersionHistoryReturn;
+  /** Offer to restore as tracked changes instead of replacing (default: true) */
+  restoreAsTrackedChanges?: boolean;
+  className?: string;
+}
+
+interface Preview {
+  versionId: string;
+  mode: "view" | "compare";
+  content: TipTapDocument;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleString();
+}
+
+/**
+ * Timeline of named document versions. Versions can be saved, viewed
+ * read-only, compared with the current document as tracked changes, and
+ * restored.
+ *
+ * @example
+ * ```tsx
+ * const history = useVersionHistory(editor, { documentId, author: "Jane" });
+ *
+ * <VersionHistoryPanel history={history} />
+ * ```
+ */
+export function VersionHistoryPanel({
+  history,
+  restoreAsTrackedChanges = true,
+  className,
+}: VersionHistoryPanelProps) {
+  const { versions, isLoading, error } = history;
+  const [name, setName] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  const previewVersion = preview ? history.getVersion(preview.versionId) : null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    try {
+      await history.saveVersion(trimmed);
+    } catch {
+      // Shown through history.error; keep the name to try again
+      return;
+    }
+    setName("");
+  };
+
+  const handleView = (versionId: string) => {
+    const version = history.getVersion(versionId);
+    if (version) {
+      setPreview({ versionId, mode: "view", content: version.content });
+    }
+  };
+
+  const handleCompare = (versionId: string) => {
+    const redline = history.compareVersion(versionId);
+    if (redline) {
+      setPreview({ versionId, mode: "compare", content: redline });
+    }
+  };
+
+  const handleRestore = (versionId: string) => {
+    history.restoreVersion(versionId, {
+      asTrackedChanges: restoreAsTrackedChanges,
+    });
+    setPreview(null);
+  };
+
+  const handleDelete = async (versionId: string) => {
+    try {
+      await history.deleteVersion(versionId);
+    } catch {
+      // Shown through history.error
+      return;
+    }
+    if (preview?.versionId === versionId) setPreview(null);
+  };
+
+  return (
+    <div className={`version-history ${className ?? ""}`}>
+      <form className="version-history-save" onSubmit={handleSave}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Version name"
+          aria-label="Version name"
+        />
+        <button type="submit" disabled={!name.trim()}>
+          Save version
+        </button>
+      </form>
+
+      {error && <p className="version-history-error">{error.message}</p>}
+
+      {isLoading ? (
+        <p className="version-history-loading">Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="no-versions">No saved versions yet.</p>
+      ) : (
+        <ol className="version-history-timeline">
+          {versions.map((version) => (
+            <li
+              key={version.id}
+              className={`version-history-item ${
+                preview?.versionId === version.id ? "active" : ""
+              }`}
+            >
+              <div className="version-history-name">{version.name}</div>
+              <div className="version-history-meta">
+                {version.author} · {formatDate(version.createdAt)}
+              </div>
+              <div className="version-history-actions">
+                <button type="button" onClick={() => handleView(version.id)}>
+                  View
+                </button>
+                <button type="button" onClick={() => handleCompare(version.id)}>
+                  Compare
+                </button>
+                <button type="button" onClick={() => handleRestore(version.id)}>
+                  Restore
+                </button>
+                <button type="button" onClick={() => handleDelete(version.id)}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {preview && previewVersion && (
+        <div className="version-history-preview">
+          <div className="version-history-preview-header">
+            <span>
+              {preview.mode === "view"
+                ? `Viewing "${previewVersion.name}"`
+                : `Changes since "${previewVersion.name}"`}
+            </span>
+            <button type="button" onClick={() => setPreview(null)}>
+              Close
+            </button>
+          </div>
+          <DocumentEditor
+            key={`${preview.versionId}-${preview.mode}`}
+            initialContent={preview.content}
+            readOnly
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VersionHistoryPanel;
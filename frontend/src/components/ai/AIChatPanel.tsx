@@ -46,6 +46,7 @@ export function AIChatPanel({
     goToEditAndSelect,
     acceptEdit,
     rejectEdit,
+    undoResponse,
     getNextEdit,
     applyRecommendation,
     discardRecommendation,
@@ -55,6 +56,9 @@ export function AIChatPanel({
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatMessagesRef = useRef<HTMLDivElement>(null);
 
+  // A reply streaming in shows itself; no need for the loading indicator
+  const isStreaming = messages.some((m) => m.metadata?.isStreaming);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -395,6 +399,10 @@ export function AIChatPanel({
     const recommendations = message.metadata?.recommendations;
     const isReviewMode = message.metadata?.isReviewMode;
     const hasEdits = edits && edits.length > 0;
+    const pendingEditCount =
+      edits?.filter(
+        (edit) => edit.status === "pending" || edit.status === "applied",
+      ).length ?? 0;
     const hasRecommendations = recommendations && recommendations.length > 0;
 
     // Check if user message is a review mode request (show special styling)
@@ -437,7 +445,27 @@ export function AIChatPanel({
           </span>
         </div>
 
-        <div className="chat-message-content">{message.content}</div>
+        <div
+          className={`chat-message-content${message.metadata?.isStreaming ? " chat-message-content--streaming" : ""}`}
+        >
+          {message.content}
+        </div>
+
+        {message.metadata?.isStreaming && message.metadata.progress && (
+          <div className="chat-message-progress">
+            <div className="chat-message-progress-bar">
+              <div
+                style={{
+                  width: `${(message.metadata.progress.completed / message.metadata.progress.total) * 100}%`,
+                }}
+              />
+            </div>
+            <span>
+              {message.metadata.progress.completed} of{" "}
+              {message.metadata.progress.total} parts done
+            </span>
+          </div>
+        )}
 
         {message.metadata?.selectionContext?.hasSelection && (
           <div className="chat-message-context">
@@ -467,6 +495,16 @@ export function AIChatPanel({
               <span className="edits-hint">
                 (click to review, then Accept/Reject)
               </span>
+              {pendingEditCount > 0 && !message.metadata?.isStreaming && (
+                <button
+                  type="button"
+                  className="edits-undo-btn"
+                  onClick={() => undoResponse(message.id)}
+                  title="Reject all of this response's edits still awaiting review"
+                >
+                  Undo this response
+                </button>
+              )}
             </div>
             <div className="edits-list">
               {edits.map((edit, index) => renderEditLink(edit, index))}
@@ -558,7 +596,7 @@ export function AIChatPanel({
           <>
             {messages.map(renderMessage)}
 
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="chat-message chat-message--assistant chat-message--loading">
                 <div className="chat-loading-indicator">
                   <span></span>
@@ -8,7 +8,8 @@ interface APIKeyInputProps {
 }
 
 /**
- * APIKeyInput - A separable component for entering OpenAI API key
+ * APIKeyInput - A separable component for entering the AI provider's API key
+ * (OpenAI unless AIEditorConfig.provider says otherwise)
  *
  * This component can be placed anywhere in your layout as long as it's
  * wrapped by an AIEditorProvider. It communicates with other AI components
@@ -31,7 +32,8 @@ export function APIKeyInput({
   showLabel = true,
   compact = false,
 }: APIKeyInputProps) {
-  const { apiKey, setApiKey } = useAIEditor();
+  const { apiKey, setApiKey, config } = useAIEditor();
+  const providerLabel = config.provider?.label ?? "OpenAI";
   const [inputValue, setInputValue] = useState(apiKey || "");
   const [isEditing, setIsEditing] = useState(!apiKey);
   const [showKey, setShowKey] = useState(false);
@@ -88,7 +90,9 @@ export function APIKeyInput({
 
   return (
     <div className={`api-key-input ${className}`}>
-      {showLabel && <label className="api-key-label">OpenAI API Key</label>}
+      {showLabel && (
+        <label className="api-key-label">{providerLabel} API Key</label>
+      )}
 
       {apiKey && !isEditing ? (
         <div className="api-key-display">
@@ -177,8 +181,8 @@ export function APIKeyInput({
       )}
 
       <p className="api-key-hint">
-        Your API key is stored locally in your browser and sent directly to
-        OpenAI.
+        Your API key is stored locally in your browser and sent directly to{" "}
+        {providerLabel}.
       </p>
     </div>
   );
@@ -52,6 +52,7 @@ export function PromptInput({
 }: PromptInputProps) {
   const {
     sendPrompt,
+    cancelPrompt,
     isLoading,
     apiKey,
     selectionContext,
@@ -477,36 +478,32 @@ export function PromptInput({
             onKeyDown={handleKeyDown}
             data-placeholder={getPlaceholder()}
           />
-          <button
-            type="submit"
-            className="prompt-submit-btn"
-            disabled={
-              (!inputText.trim() && !activeCommand) ||
-              isLoading ||
-              !canSendPrompts
-            }
-            title="Send prompt"
-          >
-            {isLoading ? (
+          {isLoading ? (
+            <button
+              type="button"
+              className="prompt-submit-btn prompt-stop-btn"
+              onClick={cancelPrompt}
+              title="Stop response"
+            >
               <svg
                 width="18"
                 height="18"
                 viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                className="prompt-loading-icon"
+                fill="currentColor"
+                stroke="none"
               >
-                <line x1="12" y1="2" x2="12" y2="6" />
-                <line x1="12" y1="18" x2="12" y2="22" />
-                <line x1="4.93" y1="4.93" x2="7.76" y2="7.76" />
-                <line x1="16.24" y1="16.24" x2="19.07" y2="19.07" />
-                <line x1="2" y1="12" x2="6" y2="12" />
-                <line x1="18" y1="12" x2="22" y2="12" />
-                <line x1="4.93" y1="19.07" x2="7.76" y2="16.24" />
-                <line x1="16.24" y1="7.76" x2="19.07" y2="4.93" />
+                <rect x="6" y="6" width="12" height="12" rx="2" />
               </svg>
-            ) : (
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="prompt-submit-btn"
+              disabled={
+                (!inputText.trim() && !activeCommand) || !canSendPrompts
+              }
+              title="Send prompt"
+            >
               <svg
                 width="18"
                 height="18"
@@ -518,8 +515,8 @@ export function PromptInput({
                 <line x1="22" y1="2" x2="11" y2="13" />
                 <polygon points="22 2 15 22 11 13 2 9 22 2" />
               </svg>
-            )}
-          </button>
+            </button>
+          )}
         </div>
         <div className="prompt-hint">
           Press Enter to send, Shift+Enter for new line
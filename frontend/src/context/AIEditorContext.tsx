@@ -3,12 +3,32 @@ import {
   useContext,
   useState,
   useCallback,
+  useEffect,
   useRef,
   ReactNode,
 } from "react";
 import { Editor } from "@tiptap/react";
+import type { ChainedCommands } from "@tiptap/react";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { closeHistory } from "@tiptap/pm/history";
+import { yUndoPluginKey } from "y-prosemirror";
+import type { UndoManager } from "yjs";
 import { diffWords } from "diff";
+import { createOpenAIProvider } from "../lib/utils/aiProviders";
+import { parsePartialJSON } from "../lib/utils/partialJSON";
+import type { PartialJSONObject } from "../lib/utils/partialJSON";
+import {
+  DEFAULT_CHUNK_TOKENS,
+  estimateTokens,
+  getDocumentChunks,
+  getDocumentOutline,
+  getSelectionNeighbourhood,
+} from "../lib/utils/documentChunks";
+import type { DocumentChunkOptions } from "../lib/utils/documentChunks";
 import type {
+  AIProvider,
+  AIResponseSchema,
   ContextItem,
   ContextItemResolver,
   TrackChangeRecommendation,
@@ -59,6 +79,10 @@ export interface ChatMessage {
     contextItems?: ContextItem[];
     // Whether this was a review mode request
     isReviewMode?: boolean;
+    // Whether the reply is still streaming in
+    isStreaming?: boolean;
+    // Parts of a large document done so far, while they're sent in chunks
+    progress?: { completed: number; total: number };
   };
 }
 
@@ -148,6 +172,16 @@ export interface ModeContext {
   contextItems: ContextItem[];
   /** The TipTap editor instance (for advanced use) */
   editor: Editor;
+  /**
+   * Aborted when the prompt is cancelled (or replaced by a new one); pass
+   * it to fetch. Whatever the handler returns after that is ignored.
+   */
+  signal: AbortSignal;
+  /**
+   * Report the reply so far while it streams in: the message is shown as
+   * it grows and edits are applied as they arrive
+   */
+  onPartial?: (partial: ModePartialResult) => void;
 }
 
 /**
@@ -181,6 +215,22 @@ export interface ModeResult {
   recommendations?: ModeRecommendation[];
 }
 
+/**
+ * What a mode handler has produced so far, reported while its reply streams
+ * in (see ModeContext.onPartial)
+ */
+export interface ModePartialResult {
+  /** Message so far */
+  message: string;
+  /**
+   * Edits complete so far. They're applied as they arrive, so they must
+   * also be the first edits of the final result.
+   */
+  edits?: ModeEdit[];
+  /** Parts of the work done so far, for work done in several requests */
+  progress?: { completed: number; total: number };
+}
+
 /**
  * A pluggable AI mode (slash command)
  */
@@ -195,6 +245,15 @@ export interface AIMode {
   handler: (context: ModeContext) => Promise<ModeResult>;
 }
 
+/**
+ * How the built-in edit mode splits a document too large to send in one
+ * request (direct API mode)
+ */
+export interface AIChunkingConfig extends DocumentChunkOptions {
+  /** Chunks sent at once (default: 1) */
+  concurrency?: number;
+}
+
 export interface AIEditorConfig {
   aiAuthorName?: string;
 
@@ -204,15 +263,37 @@ export interface AIEditorConfig {
 
   // Legacy: Custom AI request handler for edit mode
   // If provided, the built-in "edit" mode will use this handler
-  // If not provided, falls back to direct OpenAI API (requires apiKey)
-  onAIRequest?: (request: AIEditRequest) => Promise<AIEditResponse>;
+  // If not provided, falls back to the provider (direct API mode)
+  // options.signal aborts when the prompt is cancelled
+  onAIRequest?: (
+    request: AIEditRequest,
+    options: { signal: AbortSignal },
+  ) => Promise<AIEditResponse>;
 
   // Legacy: Custom AI request handler for review mode
   // If provided, the built-in "review" mode will use this handler
-  // If not provided, falls back to direct OpenAI API (requires apiKey)
-  onAIReviewRequest?: (request: AIReviewRequest) => Promise<AIReviewResponse>;
-
-  // Only used if handlers are not provided (direct OpenAI mode)
+  // If not provided, falls back to the provider (direct API mode)
+  onAIReviewRequest?: (
+    request: AIReviewRequest,
+    options: { signal: AbortSignal },
+  ) => Promise<AIReviewResponse>;
+
+  // LLM service for direct API mode (see createOpenAIProvider,
+  // createAnthropicProvider, createAzureOpenAIProvider)
+  // Default: OpenAI, with the key entered in APIKeyInput
+  provider?: AIProvider;
+
+  // Stream replies from providers that support it, showing the message
+  // and applying edits as they arrive (default: true)
+  streaming?: boolean;
+
+  // Documents over the chunk budget are edited a chunk at a time, and
+  // prompts about a selection get only the text around it, each with an
+  // outline of the document's headings. false always sends the whole
+  // document. Only used in direct API mode.
+  chunking?: AIChunkingConfig | false;
+
+  // Only used if handlers are not provided (direct API mode)
   aiModel?: string;
   aiTemperature?: number;
 
@@ -254,12 +335,16 @@ export interface AIEditorState {
 
   // Actions
   sendPrompt: (prompt: string, options?: { mode?: AIMode }) => Promise<void>;
+  // Stop the prompt in flight; nothing more from its reply is applied
+  cancelPrompt: () => void;
   scrollToEdit: (edit: AIEdit) => void;
   goToEditAndSelect: (edit: AIEdit) => void;
 
   // Accept/Reject paired changes
   acceptEdit: (edit: AIEdit) => void;
   rejectEdit: (edit: AIEdit) => void;
+  // Reject every edit of an assistant message still awaiting review
+  undoResponse: (messageId: string) => void;
 
   // Get all pending edits from messages
   getPendingEdits: () => AIEdit[];
@@ -341,6 +426,66 @@ function getCleanTextFromNode(node: import("@tiptap/pm/model").Node): string {
   return text;
 }
 
+/**
+ * Document ranges of the text between two offsets into a paragraph's clean
+ * text (see getCleanTextFromNode), leaving out deleted text in between.
+ * `from` is where the paragraph's content starts.
+ */
+function cleanTextRanges(
+  paragraph: PMNode,
+  from: number,
+  start: number,
+  end: number,
+): Array<{ from: number; to: number }> {
+  const ranges: Array<{ from: number; to: number }> = [];
+  let offset = 0;
+
+  paragraph.descendants((child, pos) => {
+    if (!child.isText || !child.text) return true;
+    if (child.marks.some((mark) => mark.type.name === "deletion")) {
+      return false;
+    }
+    const childStart = offset;
+    offset += child.text.length;
+    const rangeStart = Math.max(start, childStart);
+    const rangeEnd = Math.min(end, offset);
+    if (rangeStart < rangeEnd) {
+      ranges.push({
+        from: from + pos + rangeStart - childStart,
+        to: from + pos + rangeEnd - childStart,
+      });
+    }
+    return false;
+  });
+
+  return ranges;
+}
+
+/**
+ * Document position of an offset into a paragraph's clean text. An offset
+ * where deleted text sits lands at the end of the text before it.
+ */
+function cleanTextPos(paragraph: PMNode, from: number, offset: number): number {
+  let remaining = offset;
+  let result: number | null = null;
+
+  paragraph.descendants((child, pos) => {
+    if (result !== null) return false;
+    if (!child.isText || !child.text) return true;
+    if (child.marks.some((mark) => mark.type.name === "deletion")) {
+      return false;
+    }
+    if (remaining <= child.text.length) {
+      result = from + pos + remaining;
+    } else {
+      remaining -= child.text.length;
+    }
+    return false;
+  });
+
+  return result ?? from + paragraph.content.size;
+}
+
 /**
  * Track changes context for a selection - provides both original and accepted versions.
  */
@@ -495,6 +640,105 @@ interface PendingTrackChange {
   endPos: number; // end position
 }
 
+/**
+ * One step in the undo history for changes made in several goes, e.g. the
+ * edits of a reply applied as they stream in
+ */
+interface HistoryStep {
+  /** Tags the step's transactions; history keeps those with one tag together */
+  id: string;
+  /** The document after the step's last change */
+  doc: PMNode | null;
+  /** Hands the Yjs undo manager back its own grouping, when collaborating */
+  release: (() => void) | null;
+}
+
+/**
+ * The Yjs undo manager, which replaces the history plugin when
+ * collaborating
+ */
+function getUndoManager(editor: Editor): UndoManager | null {
+  return yUndoPluginKey.getState(editor.state)?.undoManager ?? null;
+}
+
+/**
+ * Run a command chain as part of the given undo step. If the document
+ * changed some other way since the step's last change, the history is
+ * closed first and the rest of the step becomes a step of its own, so undo
+ * never takes back someone else's typing along with it.
+ *
+ * With collaboration, the Yjs undo manager takes the place of the history.
+ * It groups changes made within its capture timeout, so until the step is
+ * closed the timeout is lifted, and capturing stops before any other
+ * change so it doesn't join the step.
+ */
+function runInHistoryStep(
+  editor: Editor,
+  step: HistoryStep,
+  command: (chain: ChainedCommands) => ChainedCommands,
+): boolean {
+  const startsGroup = step.doc !== editor.state.doc;
+  const undoManager = getUndoManager(editor);
+  if (startsGroup) undoManager?.stopCapturing();
+  if (undoManager && !step.release) {
+    const { captureTimeout } = undoManager;
+    const onBeforeTransaction = ({
+      transaction,
+    }: {
+      transaction: Transaction;
+    }) => {
+      if (
+        transaction.docChanged &&
+        transaction.getMeta("composition") !== step.id
+      ) {
+        undoManager.stopCapturing();
+      }
+    };
+    undoManager.captureTimeout = Infinity;
+    editor.on("beforeTransaction", onBeforeTransaction);
+    step.release = () => {
+      undoManager.captureTimeout = captureTimeout;
+      editor.off("beforeTransaction", onBeforeTransaction);
+    };
+  }
+
+  const chain = editor.chain().command(({ tr }) => {
+    if (startsGroup) closeHistory(tr);
+    // The history groups consecutive transactions of one "composition"
+    tr.setMeta("composition", step.id);
+    return true;
+  });
+  const ran = command(chain).run();
+  step.doc = editor.state.doc;
+  return ran;
+}
+
+/**
+ * End an undo step, so whatever changes the document next is undone on
+ * its own
+ */
+function closeHistoryStep(editor: Editor, step: HistoryStep): void {
+  if (step.release) {
+    getUndoManager(editor)?.stopCapturing();
+    step.release();
+    step.release = null;
+  }
+  if (!step.doc || editor.isDestroyed) return;
+  editor.view.dispatch(closeHistory(editor.state.tr));
+  step.doc = null;
+}
+
+const LOCKED_ERROR =
+  "Track changes is locked; AI edits can't be accepted or rejected";
+
+/**
+ * Whether track changes is locked, so the AI can't resolve changes: the
+ * lock would drop them while the edit still looked resolved
+ */
+function isTrackChangesLocked(editor: Editor): boolean {
+  return !!editor.storage.trackChangesMode?.locked;
+}
+
 /**
  * Get all pending track changes within a given range.
  */
@@ -651,6 +895,38 @@ ${changesText}
 `;
 }
 
+/**
+ * Part of a document sent on its own, with the document's outline
+ */
+interface DocumentExcerpt {
+  outline: string;
+  /** Which part this is, e.g. "part 2 of 5 of the document" */
+  description: string;
+  /** Whether the other parts are edited in requests of their own */
+  chunked: boolean;
+}
+
+/**
+ * The document section of the system prompt for an excerpt: the outline,
+ * then the excerpt's paragraphs
+ */
+function buildExcerptSection(
+  indexedDocument: string,
+  excerpt: DocumentExcerpt,
+): string {
+  return `## Document Outline
+The document is too long to send at once. Its headings are:
+${excerpt.outline || "(no headings)"}
+
+## Current Document (Excerpt)
+Below is ${excerpt.description}. Only these paragraphs can be edited.${
+    excerpt.chunked
+      ? " The rest of the document is handled separately and your message is shown alongside the replies for the other parts, so only describe what you did in this part, and leave the message empty if nothing here needs changing."
+      : ""
+  }
+${indexedDocument}`;
+}
+
 /**
  * Build the system prompt for OpenAI with paragraph-based editing instructions.
  */
@@ -660,6 +936,7 @@ function buildSystemPrompt(
   selectedText: string,
   contextItems: ContextItem[] = [],
   trackChangesContext?: TrackChangesContext,
+  excerpt?: DocumentExcerpt,
 ): string {
   let prompt = `You are an AI writing assistant helping to edit documents. You can answer questions about the document or suggest edits.
 
@@ -709,8 +986,7 @@ And the user asks to change British spellings to American, respond:
   ]
 }
 
-## Current Document
-${indexedDocument}
+${excerpt ? buildExcerptSection(indexedDocument, excerpt) : `## Current Document\n${indexedDocument}`}
 `;
 
   if (hasSelection && trackChangesContext?.hasTrackChanges) {
@@ -769,90 +1045,82 @@ ${item.content}
 }
 
 // ============================================================================
-// OpenAI Response Schemas (for direct API mode)
+// Response Schemas (for direct API mode)
 // ============================================================================
 
-const REVIEW_RESPONSE_SCHEMA = {
-  type: "json_schema",
-  json_schema: {
-    name: "ai_review_response",
-    strict: true,
-    schema: {
-      type: "object",
-      properties: {
-        message: {
-          type: "string",
-          description: "Summary of the review",
-        },
-        recommendations: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              index: {
-                type: "number",
-                description: "Index of the change being evaluated",
-              },
-              recommendation: {
-                type: "string",
-                enum: ["accept", "reject", "leave_alone"],
-                description: "The recommended action",
-              },
-              reason: {
-                type: "string",
-                description: "Brief explanation for this recommendation",
-              },
+const REVIEW_RESPONSE_SCHEMA: AIResponseSchema = {
+  name: "ai_review_response",
+  schema: {
+    type: "object",
+    properties: {
+      message: {
+        type: "string",
+        description: "Summary of the review",
+      },
+      recommendations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            index: {
+              type: "number",
+              description: "Index of the change being evaluated",
+            },
+            recommendation: {
+              type: "string",
+              enum: ["accept", "reject", "leave_alone"],
+              description: "The recommended action",
+            },
+            reason: {
+              type: "string",
+              description: "Brief explanation for this recommendation",
             },
-            required: ["index", "recommendation", "reason"],
-            additionalProperties: false,
           },
+          required: ["index", "recommendation", "reason"],
+          additionalProperties: false,
         },
       },
-      required: ["message", "recommendations"],
-      additionalProperties: false,
     },
+    required: ["message", "recommendations"],
+    additionalProperties: false,
   },
 };
 
-const EDIT_RESPONSE_SCHEMA = {
-  type: "json_schema",
-  json_schema: {
-    name: "ai_edit_response",
-    strict: true,
-    schema: {
-      type: "object",
-      properties: {
-        message: {
-          type: "string",
-          description: "Response message explaining what was done",
-        },
-        edits: {
-          type: "array",
-          description: "Array of paragraph edits (empty if no changes needed)",
-          items: {
-            type: "object",
-            properties: {
-              paragraphId: {
-                type: "string",
-                description: "The UUID of the paragraph to edit",
-              },
-              newText: {
-                type: "string",
-                description: "The complete new text for the paragraph",
-              },
-              reason: {
-                type: "string",
-                description: "Brief explanation of what was changed",
-              },
+const EDIT_RESPONSE_SCHEMA: AIResponseSchema = {
+  name: "ai_edit_response",
+  schema: {
+    type: "object",
+    properties: {
+      message: {
+        type: "string",
+        description: "Response message explaining what was done",
+      },
+      edits: {
+        type: "array",
+        description: "Array of paragraph edits (empty if no changes needed)",
+        items: {
+          type: "object",
+          properties: {
+            paragraphId: {
+              type: "string",
+              description: "The UUID of the paragraph to edit",
+            },
+            newText: {
+              type: "string",
+              description: "The complete new text for the paragraph",
+            },
+            reason: {
+              type: "string",
+              description: "Brief explanation of what was changed",
             },
-            required: ["paragraphId", "newText", "reason"],
-            additionalProperties: false,
           },
+          required: ["paragraphId", "newText", "reason"],
+          additionalProperties: false,
         },
       },
-      required: ["message", "edits"],
-      additionalProperties: false,
     },
+    required: ["message", "edits"],
+    additionalProperties: false,
   },
 };
 
@@ -866,15 +1134,57 @@ interface HandlerDependencies {
   buildSystemPromptFn: typeof buildSystemPrompt;
 }
 
+/**
+ * Send a chat completion through the configured provider (OpenAI by
+ * default) and parse the JSON reply. A reply that isn't JSON is returned
+ * as the raw text. With onPartial, the reply is streamed if the provider
+ * can, and onPartial gets what has arrived so far. Cancelling the prompt
+ * aborts the request.
+ */
+async function completeWithProvider(
+  deps: HandlerDependencies,
+  context: ModeContext,
+  systemPrompt: string,
+  schema: AIResponseSchema,
+  onPartial?: (partial: PartialJSONObject) => void,
+): Promise<{ parsed: Partial<ModeResult> | null; content: string }> {
+  const { config, apiKey } = deps;
+  const provider = config.provider ?? createOpenAIProvider();
+
+  const request = {
+    messages: [
+      { role: "system" as const, content: systemPrompt },
+      { role: "user" as const, content: context.prompt },
+    ],
+    schema,
+    model: config.aiModel,
+    temperature: config.aiTemperature ?? 1.0,
+    apiKey,
+    signal: context.signal,
+  };
+  const content =
+    onPartial && provider.stream && config.streaming !== false
+      ? await provider.stream(request, (text) =>
+          onPartial(parsePartialJSON(text)),
+        )
+      : await provider.complete(request);
+
+  try {
+    return { parsed: JSON.parse(content), content };
+  } catch {
+    return { parsed: null, content };
+  }
+}
+
 /**
  * Create the review mode handler.
- * Uses config.onAIReviewRequest if provided, otherwise calls OpenAI directly.
+ * Uses config.onAIReviewRequest if provided, otherwise calls the provider directly.
  */
 function createReviewModeHandler(
   deps: HandlerDependencies,
 ): (context: ModeContext) => Promise<ModeResult> {
   return async (context: ModeContext): Promise<ModeResult> => {
-    const { config, apiKey } = deps;
+    const { config } = deps;
     const { prompt, groupedChanges } = context;
 
     // Build the system prompt for review
@@ -894,65 +1204,46 @@ function createReviewModeHandler(
         })),
       };
 
-      const response = await config.onAIReviewRequest(request);
+      const response = await config.onAIReviewRequest(request, {
+        signal: context.signal,
+      });
       return {
         message: response.message,
         recommendations: response.recommendations,
       };
     }
 
-    // Direct OpenAI API mode
-    console.log("[reviewMode] Using direct OpenAI API");
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.aiModel || "gpt-5-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: prompt },
-        ],
-        temperature: config.aiTemperature ?? 1.0,
-        max_completion_tokens: 65536,
-        response_format: REVIEW_RESPONSE_SCHEMA,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error?.message || `API request failed: ${response.status}`,
-      );
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || "{}";
-
-    try {
-      const parsed = JSON.parse(content);
-      return {
-        message: parsed.message || "",
-        recommendations: parsed.recommendations || [],
-      };
-    } catch {
+    // Direct API mode
+    console.log("[reviewMode] Using direct API");
+
+    const { parsed, content } = await completeWithProvider(
+      deps,
+      context,
+      systemPrompt,
+      REVIEW_RESPONSE_SCHEMA,
+      context.onPartial &&
+        ((partial) =>
+          context.onPartial?.({ message: partial.strings.message ?? "" })),
+    );
+    if (!parsed) {
       return { message: content, recommendations: [] };
     }
+    return {
+      message: parsed.message || "",
+      recommendations: parsed.recommendations || [],
+    };
   };
 }
 
 /**
  * Create the edit mode handler.
- * Uses config.onAIRequest if provided, otherwise calls OpenAI directly.
+ * Uses config.onAIRequest if provided, otherwise calls the provider directly.
  */
 function createEditModeHandler(
   deps: HandlerDependencies,
 ): (context: ModeContext) => Promise<ModeResult> {
   return async (context: ModeContext): Promise<ModeResult> => {
-    const { config, apiKey, buildSystemPromptFn } = deps;
+    const { config } = deps;
     const { prompt, paragraphs, selectedText, hasSelection, contextItems } =
       context;
 
@@ -969,7 +1260,9 @@ function createEditModeHandler(
         contextItems: contextItems.length > 0 ? contextItems : undefined,
       };
 
-      const response = await config.onAIRequest(request);
+      const response = await config.onAIRequest(request, {
+        signal: context.signal,
+      });
       return {
         message: response.message,
         edits: response.edits.map((e) => ({
@@ -980,60 +1273,207 @@ function createEditModeHandler(
       };
     }
 
-    // Direct OpenAI API mode - need to build the full document
-    console.log("[editMode] Using direct OpenAI API");
+    // Direct API mode
+    console.log("[editMode] Using direct API");
 
-    // Build indexed document string from paragraphs
-    const indexedDocument = paragraphs
-      .map((p) => `[${p.id}] ${p.text}`)
-      .join("\n\n");
-
-    const systemPrompt = buildSystemPromptFn(
-      indexedDocument,
-      hasSelection,
-      selectedText || "",
-      contextItems,
-      undefined, // trackChangesContext - would need to pass this through
+    const chunking = config.chunking === false ? null : (config.chunking ?? {});
+    const maxTokens = chunking?.maxTokens ?? DEFAULT_CHUNK_TOKENS;
+    const documentTokens = paragraphs.reduce(
+      (sum, p) => sum + estimateTokens(p.text),
+      0,
     );
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.aiModel || "gpt-5-mini",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: prompt },
-        ],
-        temperature: config.aiTemperature ?? 1.0,
-        max_completion_tokens: 65536,
-        response_format: EDIT_RESPONSE_SCHEMA,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error?.message || `API request failed: ${response.status}`,
+    // Small enough to send whole
+    if (!chunking || documentTokens <= maxTokens) {
+      return requestEdits(
+        deps,
+        context,
+        paragraphs,
+        undefined,
+        context.onPartial,
       );
     }
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || "{}";
+    const doc = context.editor.state.doc;
+    const outline = getDocumentOutline(doc);
+    const paragraphsById = new Map(paragraphs.map((p) => [p.id, p]));
+    const pick = (ids: string[]) =>
+      ids.flatMap((id) => paragraphsById.get(id) ?? []);
+
+    // A selection only needs the text around it
+    if (hasSelection) {
+      const { from, to } = context.editor.state.selection;
+      const neighbourhood = getSelectionNeighbourhood(doc, from, to, maxTokens);
+      if (neighbourhood.paragraphIds.length > 0) {
+        return requestEdits(
+          deps,
+          context,
+          pick(neighbourhood.paragraphIds),
+          {
+            outline,
+            description: "the part of the document around the user's selection",
+            chunked: false,
+          },
+          context.onPartial,
+        );
+      }
+    }
 
+    const chunks = getDocumentChunks(doc, chunking);
+    console.log(`[editMode] Sending the document in ${chunks.length} chunks`);
+
+    // Edits are merged in the order they arrive, so those already reported
+    // stay the first edits of the result
+    const messages = chunks.map(() => "");
+    const edits: ModeEdit[] = [];
+    const mergedCounts = chunks.map(() => 0);
+    let completed = 0;
+
+    const mergeEdits = (index: number, chunkEdits: ModeEdit[]) => {
+      const ids = new Set(chunks[index].paragraphIds);
+      // The model may only edit its own chunk
+      const own = chunkEdits.filter((edit) => ids.has(edit.paragraphId));
+      edits.push(...own.slice(mergedCounts[index]));
+      mergedCounts[index] = Math.max(mergedCounts[index], own.length);
+    };
+    const joinMessages = () =>
+      Array.from(new Set(messages.map((m) => m.trim()).filter(Boolean))).join(
+        "\n\n",
+      );
+    const report = () =>
+      context.onPartial?.({
+        message: joinMessages(),
+        edits: [...edits],
+        progress: { completed, total: chunks.length },
+      });
+
+    // Chunk requests share a signal of their own, so one failing stops the
+    // others as well as cancelling the prompt
+    const chunkController = new AbortController();
+    const abortChunks = () => chunkController.abort();
+    if (context.signal.aborted) abortChunks();
+    context.signal.addEventListener("abort", abortChunks);
+    const chunkContext = { ...context, signal: chunkController.signal };
+
+    report();
     try {
-      const parsed = JSON.parse(content);
-      return {
-        message: parsed.message || "",
-        edits: parsed.edits || [],
-      };
-    } catch {
-      return { message: content, edits: [] };
+      await runWithConcurrency(
+        chunks.map((chunk, index) => async () => {
+          const result = await requestEdits(
+            deps,
+            chunkContext,
+            pick(chunk.paragraphIds),
+            {
+              outline,
+              description: `part ${index + 1} of ${chunks.length} of the document${
+                chunk.title
+                  ? `, starting under the heading "${chunk.title}"`
+                  : ""
+              }`,
+              chunked: true,
+            },
+            context.onPartial &&
+              ((partial) => {
+                if (chunkController.signal.aborted) return;
+                messages[index] = partial.message;
+                mergeEdits(index, partial.edits ?? []);
+                report();
+              }),
+          );
+          messages[index] = result.message;
+          mergeEdits(index, result.edits);
+          completed++;
+          report();
+        }),
+        chunking.concurrency ?? 1,
+        chunkController,
+      );
+    } finally {
+      context.signal.removeEventListener("abort", abortChunks);
+    }
+
+    return {
+      message:
+        joinMessages() ||
+        (edits.length > 0
+          ? `Suggested ${edits.length} edits.`
+          : "No changes needed."),
+      edits,
+    };
+  };
+}
+
+/**
+ * Ask the provider for edits to the given paragraphs: the whole document,
+ * or an excerpt of it
+ */
+async function requestEdits(
+  deps: HandlerDependencies,
+  context: ModeContext,
+  paragraphs: ModeContext["paragraphs"],
+  excerpt: DocumentExcerpt | undefined,
+  onPartial?: (partial: ModePartialResult) => void,
+): Promise<{ message: string; edits: ModeEdit[] }> {
+  // Build indexed document string from paragraphs
+  const indexedDocument = paragraphs
+    .map((p) => `[${p.id}] ${p.text}`)
+    .join("\n\n");
+
+  const systemPrompt = deps.buildSystemPromptFn(
+    indexedDocument,
+    context.hasSelection,
+    context.selectedText || "",
+    context.contextItems,
+    undefined, // trackChangesContext - would need to pass this through
+    excerpt,
+  );
+
+  const { parsed, content } = await completeWithProvider(
+    deps,
+    context,
+    systemPrompt,
+    EDIT_RESPONSE_SCHEMA,
+    onPartial &&
+      ((partial) =>
+        onPartial({
+          message: partial.strings.message ?? "",
+          edits: (partial.items.edits ?? []) as ModeEdit[],
+        })),
+  );
+  if (!parsed) {
+    return { message: content, edits: [] };
+  }
+  return {
+    message: parsed.message || "",
+    edits: parsed.edits || [],
+  };
+}
+
+/**
+ * Run tasks with at most `limit` at a time. The first failure aborts the
+ * controller, so tasks still running (which use its signal) stop too, and
+ * no more are started once it aborts.
+ */
+async function runWithConcurrency(
+  tasks: Array<() => Promise<void>>,
+  limit: number,
+  controller: AbortController,
+): Promise<void> {
+  const { signal } = controller;
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !signal.aborted) {
+      try {
+        await tasks[next++]();
+      } catch (err) {
+        controller.abort();
+        throw err;
+      }
     }
   };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker),
+  );
 }
 
 // ============================================================================
@@ -1201,6 +1641,20 @@ export function AIEditorProvider({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Aborts the prompt in flight
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const cancelPrompt = useCallback(() => {
+    const controller = abortControllerRef.current;
+    if (!controller) return;
+    abortControllerRef.current = null;
+    controller.abort();
+    setIsLoading(false);
+  }, []);
+
+  // Nothing from a reply is applied once the provider is gone
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Context items state
   const [contextItems, setContextItems] = useState<ContextItem[]>([]);
 
@@ -1265,11 +1719,10 @@ export function AIEditorProvider({
       }
     }
 
-    // Fallback: find the paragraph by ID
+    // Fallback: find the paragraph by ID (scrolling only; the selection
+    // and focus stay where the user left them)
     const para = findParagraphById(ed, edit.paragraphId);
     if (para) {
-      ed.commands.focus();
-      ed.commands.setTextSelection(para.from);
       const domAtPos = ed.view.domAtPos(para.from);
       if (domAtPos.node) {
         const element =
@@ -1567,6 +2020,10 @@ export function AIEditorProvider({
     (edit: AIEdit) => {
       const ed = editorRef.current;
       if (!ed) return;
+      if (isTrackChangesLocked(ed)) {
+        setError(LOCKED_ERROR);
+        return;
+      }
 
       console.log("[acceptEdit] Accepting edit:", edit);
 
@@ -1598,6 +2055,10 @@ export function AIEditorProvider({
     (edit: AIEdit) => {
       const ed = editorRef.current;
       if (!ed) return;
+      if (isTrackChangesLocked(ed)) {
+        setError(LOCKED_ERROR);
+        return;
+      }
 
       console.log("[rejectEdit] Rejecting edit:", edit);
 
@@ -1624,6 +2085,62 @@ export function AIEditorProvider({
     [updateEditStatus, getNextEdit, goToEditAndSelect],
   );
 
+  // Reject all of a reply's edits still awaiting review, as one undo step
+  const undoResponse = useCallback(
+    (messageId: string) => {
+      const ed = editorRef.current;
+      const message = messages.find((m) => m.id === messageId);
+      if (!ed || !message?.metadata?.edits) return;
+
+      const pendingEdits = message.metadata.edits.filter(
+        (edit) => edit.status === "pending" || edit.status === "applied",
+      );
+      if (pendingEdits.length === 0) return;
+      if (isTrackChangesLocked(ed)) {
+        setError(LOCKED_ERROR);
+        return;
+      }
+
+      console.log(
+        `[undoResponse] Rejecting ${pendingEdits.length} edits of ${messageId}`,
+      );
+
+      const historyStep: HistoryStep = {
+        id: generateId(),
+        doc: null,
+        release: null,
+      };
+      for (const edit of pendingEdits) {
+        const { deletionId, insertionId } = edit;
+        if (deletionId) {
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.rejectDeletion(deletionId),
+          );
+        }
+        if (insertionId) {
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.rejectInsertion(insertionId),
+          );
+        }
+      }
+      closeHistoryStep(ed, historyStep);
+
+      const rejectedIds = new Set(pendingEdits.map((edit) => edit.id));
+      setMessages((prevMessages) =>
+        prevMessages.map((m) => {
+          if (m.id !== messageId || !m.metadata?.edits) return m;
+          const updatedEdits = m.metadata.edits.map((edit) =>
+            rejectedIds.has(edit.id)
+              ? { ...edit, status: "rejected" as const }
+              : edit,
+          );
+          return { ...m, metadata: { ...m.metadata, edits: updatedEdits } };
+        }),
+      );
+    },
+    [messages],
+  );
+
   // Represents a paired word change (deletion + insertion)
   interface WordChange {
     deletedText: string;
@@ -1639,6 +2156,7 @@ export function AIEditorProvider({
       paragraphId: string,
       newText: string,
       authorName: string,
+      historyStep: HistoryStep,
       reason?: string,
     ): AIEdit[] => {
       // Find current paragraph position
@@ -1708,26 +2226,42 @@ export function AIEditorProvider({
           if (id) existingIds.add(id);
         });
 
-      // Apply changes in reverse order (from end to start) to preserve positions
+      // Apply changes in reverse order (from end to start) to preserve positions.
+      // Edits go straight to positions so the user's selection and focus
+      // stay put while replies stream in. The diff's offsets are into the
+      // clean text, so text already deleted is stepped over.
       const changesWithPositions = diff
         .filter((c) => c.type === "delete" || c.type === "insert")
         .reverse();
 
       for (const change of changesWithPositions) {
-        const docPos = para.from + change.oldStart;
+        const paragraph = ed.state.doc.nodeAt(para.from - 1);
+        if (!paragraph) break;
 
         if (change.type === "delete") {
-          ed.chain()
-            .focus()
-            .setTextSelection({ from: docPos, to: para.from + change.oldEnd })
-            .deleteSelection()
-            .run();
+          const ranges = cleanTextRanges(
+            paragraph,
+            para.from,
+            change.oldStart,
+            change.oldEnd,
+          );
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.command(({ tr }) => {
+              // Last first, so the earlier ranges stay where they are
+              ranges.reverse().forEach((range) => {
+                tr.delete(range.from, range.to);
+              });
+              return true;
+            }),
+          );
         } else if (change.type === "insert") {
-          ed.chain()
-            .focus()
-            .setTextSelection(docPos)
-            .insertContent(change.text)
-            .run();
+          const docPos = cleanTextPos(paragraph, para.from, change.oldStart);
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.command(({ tr }) => {
+              tr.insertText(change.text, docPos);
+              return true;
+            }),
+          );
         }
       }
 
@@ -1752,6 +2286,15 @@ export function AIEditorProvider({
       console.log(`  New deletion IDs:`, newDeletionIds);
       console.log(`  New insertion IDs:`, newInsertionIds);
 
+      // Keep the AI's explanation on the marks so it survives the session
+      if (reason) {
+        [...newDeletionIds, ...newInsertionIds].forEach((id) => {
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.setTrackedChangeReason(id, reason),
+          );
+        });
+      }
+
       // Match track change IDs to word changes
       // Both IDs and wordChanges are in document order (forward)
       let delIdx = 0;
@@ -1784,7 +2327,10 @@ export function AIEditorProvider({
 
   // Accept all track changes within a specific paragraph
   const acceptAllChangesInParagraph = useCallback(
-    (ed: Editor, paragraphId: string) => {
+    (ed: Editor, paragraphId: string, historyStep: HistoryStep) => {
+      // Locked changes stay as they are; the new edits go around them
+      if (isTrackChangesLocked(ed)) return;
+
       const editorDom = ed.view.dom;
 
       // Find all track changes in this paragraph and accept them
@@ -1797,7 +2343,9 @@ export function AIEditorProvider({
       deletions.forEach((del) => {
         const id = del.getAttribute("data-deletion-id");
         if (id) {
-          ed.commands.acceptDeletion(id);
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.acceptDeletion(id),
+          );
         }
       });
 
@@ -1806,7 +2354,9 @@ export function AIEditorProvider({
       insertions.forEach((ins) => {
         const id = ins.getAttribute("data-insertion-id");
         if (id) {
-          ed.commands.acceptInsertion(id);
+          runInHistoryStep(ed, historyStep, (chain) =>
+            chain.acceptInsertion(id),
+          );
         }
       });
     },
@@ -1822,6 +2372,7 @@ export function AIEditorProvider({
         reason?: string;
       }>,
       authorName: string,
+      historyStep: HistoryStep,
     ): AIEdit[] => {
       const ed = editorRef.current;
       if (!ed || paragraphEdits.length === 0) return [];
@@ -1829,34 +2380,41 @@ export function AIEditorProvider({
       // First, accept all existing track changes in affected paragraphs
       // This ensures clean positions for applying new edits
       for (const paraEdit of paragraphEdits) {
-        acceptAllChangesInParagraph(ed, paraEdit.paragraphId);
+        acceptAllChangesInParagraph(ed, paraEdit.paragraphId, historyStep);
       }
 
-      // Enable track changes with AI author
-      const wasEnabled = ed.storage.trackChangesMode?.enabled || false;
-      const previousAuthor = ed.storage.trackChangesMode?.author || "User";
-
-      ed.commands.enableTrackChanges();
-      ed.commands.setTrackChangesAuthor(authorName);
+      // Track the edits as the AI author. Storage is set directly rather
+      // than through enable/disableTrackChanges, which would share this
+      // brief switch with collaborators.
+      const storage = ed.storage.trackChangesMode;
+      const wasEnabled = storage?.enabled || false;
+      const previousAuthor = storage?.author || "User";
+      if (storage) {
+        storage.enabled = true;
+        storage.author = authorName;
+      }
 
       // Apply each paragraph edit and collect word-level edits
       const allEdits: AIEdit[] = [];
-      for (const paraEdit of paragraphEdits) {
-        const wordEdits = applyParagraphEdit(
-          ed,
-          paraEdit.paragraphId,
-          paraEdit.newText,
-          authorName,
-          paraEdit.reason,
-        );
-        allEdits.push(...wordEdits);
-      }
-
-      // Restore previous track changes state
-      if (!wasEnabled) {
-        ed.commands.disableTrackChanges();
+      try {
+        for (const paraEdit of paragraphEdits) {
+          const wordEdits = applyParagraphEdit(
+            ed,
+            paraEdit.paragraphId,
+            paraEdit.newText,
+            authorName,
+            historyStep,
+            paraEdit.reason,
+          );
+          allEdits.push(...wordEdits);
+        }
+      } finally {
+        // Restore previous track changes state
+        if (storage) {
+          storage.enabled = wasEnabled;
+          storage.author = previousAuthor;
+        }
       }
-      ed.commands.setTrackChangesAuthor(previousAuthor);
 
       return allEdits;
     },
@@ -1882,11 +2440,17 @@ export function AIEditorProvider({
         : !!config.onAIRequest;
       const hasModeHandler = mode?.handler != null;
 
-      if (!hasCustomHandler && !hasModeHandler && !apiKey) {
+      if (!hasCustomHandler && !hasModeHandler && !config.provider && !apiKey) {
         setError("Please enter your OpenAI API key");
         return;
       }
 
+      // A new prompt replaces one still in flight
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+
       setIsLoading(true);
       setError(null);
 
@@ -1922,6 +2486,7 @@ export function AIEditorProvider({
           role: "assistant",
           content: message,
         });
+        abortControllerRef.current = null;
         setIsLoading(false);
         return;
       }
@@ -1952,6 +2517,93 @@ export function AIEditorProvider({
         groupedChanges,
         contextItems,
         editor: ed,
+        signal,
+      };
+
+      // A streamed reply is shown as it arrives and its edits applied as
+      // they complete; the final result then fills in the same message
+      const authorName = config.aiAuthorName || "AI";
+      const streamed = {
+        messageId: null as string | null,
+        edits: [] as AIEdit[],
+        appliedCount: 0,
+      };
+      // All of the reply's edits undo as one step
+      const historyStep: HistoryStep = {
+        id: generateId(),
+        doc: null,
+        release: null,
+      };
+
+      const finishStreaming = () => {
+        const id = streamed.messageId;
+        if (!id) return;
+        setMessages((prev) =>
+          prev.map((message) =>
+            message.id === id
+              ? {
+                  ...message,
+                  metadata: { ...message.metadata, isStreaming: false },
+                }
+              : message,
+          ),
+        );
+      };
+
+      // Once cancelled, what has streamed in stays but nothing more arrives
+      signal.addEventListener("abort", () => {
+        finishStreaming();
+        addMessage({ role: "system", content: "Response stopped." });
+      });
+
+      const showReply = (
+        content: string,
+        metadata: ChatMessage["metadata"],
+      ) => {
+        const id = streamed.messageId;
+        if (!id) {
+          streamed.messageId = addMessage({
+            role: "assistant",
+            content,
+            metadata,
+          }).id;
+          return;
+        }
+        setMessages((prev) =>
+          prev.map((message) => {
+            if (message.id !== id) return message;
+            // Keep edits already accepted or rejected while streaming
+            const edits = metadata?.edits?.map(
+              (edit) =>
+                message.metadata?.edits?.find((e) => e.id === edit.id) ?? edit,
+            );
+            return { ...message, content, metadata: { ...metadata, edits } };
+          }),
+        );
+      };
+
+      // Partial results arriving after the reply is settled are stale
+      let settled = false;
+      modeContext.onPartial = (partial) => {
+        if (signal.aborted || settled) return;
+        const newEdits = partial.edits?.slice(streamed.appliedCount) ?? [];
+        if (newEdits.length > 0) {
+          streamed.appliedCount += newEdits.length;
+          try {
+            streamed.edits = [
+              ...streamed.edits,
+              ...applyEditsAsTrackChanges(newEdits, authorName, historyStep),
+            ];
+          } catch (applyErr) {
+            console.error("[sendPrompt] Error applying edits:", applyErr);
+          }
+        }
+        showReply(partial.message, {
+          edits: streamed.edits.length > 0 ? streamed.edits : undefined,
+          isReviewMode: isReviewMode || undefined,
+          isStreaming: true,
+          progress: partial.progress,
+        });
       };
 
       // Add user message
@@ -1987,6 +2639,10 @@ export function AIEditorProvider({
           });
           result = await editHandler(modeContext);
         }
+        settled = true;
+
+        // Cancelled while waiting: the reply no longer applies
+        if (signal.aborted) return;
 
         // Process the result based on what was returned
         if (result.recommendations && result.recommendations.length > 0) {
@@ -2019,60 +2675,68 @@ export function AIEditorProvider({
             `[sendPrompt] Created ${recommendations.length} recommendations`,
           );
 
-          addMessage({
-            role: "assistant",
-            content: result.message || "Review complete.",
-            metadata: {
-              recommendations:
-                recommendations.length > 0 ? recommendations : undefined,
-              isReviewMode: true,
-            },
+          showReply(result.message || "Review complete.", {
+            recommendations:
+              recommendations.length > 0 ? recommendations : undefined,
+            isReviewMode: true,
           });
 
           // Navigate to first recommendation
           if (recommendations.length > 0) {
             setTimeout(() => goToRecommendation(recommendations[0]), 200);
           }
-        } else if (result.edits && result.edits.length > 0) {
+        } else if (
+          (result.edits && result.edits.length > 0) ||
+          streamed.edits.length > 0
+        ) {
           // ========== EDIT-TYPE RESULT ==========
-          // Apply edits as track changes
-          let processedEdits: AIEdit[] = [];
+          // Apply edits as track changes (those not already streamed in)
+          const remainingEdits =
+            result.edits?.slice(streamed.appliedCount) ?? [];
+          let processedEdits: AIEdit[] = streamed.edits;
           try {
-            processedEdits = applyEditsAsTrackChanges(
-              result.edits,
-              config.aiAuthorName || "AI",
-            );
+            processedEdits = [
+              ...streamed.edits,
+              ...applyEditsAsTrackChanges(
+                remainingEdits,
+                authorName,
+                historyStep,
+              ),
+            ];
             console.log(
-              `[sendPrompt] Applied ${result.edits.length} paragraph edits, got ${processedEdits.length} word-level edits`,
+              `[sendPrompt] Applied ${result.edits?.length ?? 0} paragraph edits, got ${processedEdits.length} word-level edits`,
             );
           } catch (applyErr) {
             console.error("[sendPrompt] Error applying edits:", applyErr);
           }
 
-          addMessage({
-            role: "assistant",
-            content: result.message || "No message provided",
-            metadata: {
-              edits: processedEdits.length > 0 ? processedEdits : undefined,
-            },
+          showReply(result.message || "No message provided", {
+            edits: processedEdits.length > 0 ? processedEdits : undefined,
           });
         } else {
           // ========== MESSAGE-ONLY RESULT ==========
-          addMessage({
-            role: "assistant",
-            content: result.message || "No message provided",
-          });
+          showReply(result.message || "No message provided", undefined);
         }
       } catch (err) {
+        // Cancelling makes the request fail; that's not an error
+        if (signal.aborted) return;
         const errorMessage =
           err instanceof Error ? err.message : "An error occurred";
+        // Keep what streamed in before the error
+        finishStreaming();
         setError(errorMessage);
         addMessage({
           role: "system",
           content: `Error: ${errorMessage}`,
         });
       } finally {
-        setIsLoading(false);
+        settled = true;
+        closeHistoryStep(ed, historyStep);
+        // Unless a newer prompt has taken over
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+          setIsLoading(false);
+        }
       }
     },
     [
@@ -2110,10 +2774,12 @@ export function AIEditorProvider({
     error,
     setError,
     sendPrompt,
+    cancelPrompt,
     scrollToEdit,
     goToEditAndSelect,
     acceptEdit,
     rejectEdit,
+    undoResponse,
     getPendingEdits,
     getNextEdit,
     updateEditStatusByTrackChangeId,
@@ -0,0 +1,254 @@
+import { Extension } from "@tiptap/core";
+import { canJoin } from "@tiptap/pm/transform";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { getAuthorColor } from "../lib/utils/authorColors";
+
+export interface BlockChangesOptions {
+  /** Node types that carry structural revision attributes */
+  types: string[];
+}
+
+/**
+ * Revision record stored in a block's tracking attribute
+ */
+export interface BlockChangeInfo {
+  id: string;
+  author: string;
+  date: string;
+}
+
+/**
+ * Revision record for a block whose type or level was changed
+ */
+export interface BlockTypeChangeInfo extends BlockChangeInfo {
+  previousType: string;
+  previousAttrs: Record<string, unknown>;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    blockChanges: {
+      acceptBlockChange: (id: string) => ReturnType;
+      rejectBlockChange: (id: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Block attributes used for structural revisions:
+ * - `trackedInsertBlock`: the block was created by a split (Enter) or paste
+ * - `trackedMergeFrom`: the block is pending a merge into the previous block
+ * - `trackedTypeChange`: the block's type or heading level was changed
+ */
+export const TRACKED_BLOCK_ATTRIBUTES = [
+  "trackedInsertBlock",
+  "trackedMergeFrom",
+  "trackedTypeChange",
+] as const;
+
+export type TrackedBlockAttribute = (typeof TRACKED_BLOCK_ATTRIBUTES)[number];
+
+/**
+ * Remove the structural revision attributes from a node's attrs
+ */
+export function stripTrackedBlockAttrs(
+  attrs: Record<string, unknown>,
+): Record<string, unknown> {
+  const result = { ...attrs };
+  for (const name of TRACKED_BLOCK_ATTRIBUTES) {
+    delete result[name];
+  }
+  return result;
+}
+
+/**
+ * Whether two blocks differ in a way that counts as a structural change
+ * (node type or heading level - IDs and classes are ignored)
+ */
+export function isBlockTypeChange(oldNode: PMNode, newNode: PMNode): boolean {
+  return (
+    oldNode.type.name !== newNode.type.name ||
+    (oldNode.attrs.level ?? null) !== (newNode.attrs.level ?? null)
+  );
+}
+
+function toKebabCase(str: string): string {
+  return str.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+function parseInfo(value: string | null): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Attribute spec for a revision record stored as JSON in a data attribute.
+ * Rendered nodes get `className` plus a kebab-case class for the attribute.
+ */
+export function createTrackedAttribute(
+  name: string,
+  className = "tracked-block",
+) {
+  const dataAttrName = `data-${toKebabCase(name)}`;
+
+  return {
+    default: null,
+    // A split must not copy the revision onto the new block
+    keepOnSplit: false,
+    parseHTML: (element: HTMLElement) =>
+      parseInfo(element.getAttribute(dataAttrName)),
+    renderHTML: (attributes: Record<string, unknown>) => {
+      const info = attributes[name] as BlockChangeInfo | null;
+      if (!info) return {};
+      const authorColor = getAuthorColor(info.author || "");
+      return {
+        [dataAttrName]: JSON.stringify(info),
+        class: `${className} ${toKebabCase(name)}`,
+        "data-author": info.author,
+        style: `--author-color: ${authorColor.primary}; --author-color-light: ${authorColor.light};`,
+      };
+    },
+  };
+}
+
+/**
+ * Join the block at `pos` into the block before it, if the structure allows
+ */
+function joinBackward(tr: Transaction, pos: number): boolean {
+  if (!canJoin(tr.doc, pos)) return false;
+  tr.join(pos);
+  return true;
+}
+
+/**
+ * Node-level revision attributes for paragraphs, headings and sections.
+ *
+ * TrackChangesMode sets these attributes when a paragraph is split, two
+ * blocks are joined or a block's type changes while tracking is on; this
+ * extension declares them and provides the accept/reject commands.
+ */
+export const BlockChanges = Extension.create<BlockChangesOptions>({
+  name: "blockChanges",
+
+  addOptions() {
+    return {
+      types: ["paragraph", "heading", "section"],
+    };
+  },
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: this.options.types,
+        attributes: {
+          trackedInsertBlock: createTrackedAttribute("trackedInsertBlock"),
+          trackedMergeFrom: createTrackedAttribute("trackedMergeFrom"),
+          trackedTypeChange: createTrackedAttribute("trackedTypeChange"),
+        },
+      },
+    ];
+  },
+
+  addCommands() {
+    // Collect blocks carrying a revision with the given ID, last first so
+    // structural edits don't shift the positions still to be processed
+    const findBlocks = (doc: PMNode, id: string) => {
+      const found: Array<{
+        node: PMNode;
+        pos: number;
+        attribute: TrackedBlockAttribute;
+      }> = [];
+      doc.descendants((node, pos) => {
+        for (const attribute of TRACKED_BLOCK_ATTRIBUTES) {
+          const info = node.attrs[attribute] as BlockChangeInfo | null;
+          if (info && info.id === id) {
+            found.push({ node, pos, attribute });
+          }
+        }
+      });
+      return found.reverse();
+    };
+
+    return {
+      acceptBlockChange:
+        (id) =>
+        ({ tr, state, dispatch }) => {
+          const blocks = findBlocks(state.doc, id);
+          if (blocks.length === 0) return false;
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          if (dispatch) {
+            for (const { node, pos, attribute } of blocks) {
+              const mappedPos = tr.mapping.map(pos);
+              tr.setNodeAttribute(mappedPos, attribute, null);
+
+              // Accepting a merge removes the paragraph break
+              if (attribute === "trackedMergeFrom" && node.isTextblock) {
+                joinBackward(tr, mappedPos);
+              }
+            }
+          }
+
+          return true;
+        },
+      rejectBlockChange:
+        (id) =>
+        ({ tr, state, dispatch }) => {
+          const blocks = findBlocks(state.doc, id);
+          if (blocks.length === 0) return false;
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          if (dispatch) {
+            for (const { node, pos, attribute } of blocks) {
+              const mappedPos = tr.mapping.map(pos);
+              tr.setNodeAttribute(mappedPos, attribute, null);
+
+              if (attribute === "trackedInsertBlock") {
+                if (node.isTextblock) {
+                  // Rejecting a split re-joins the paragraphs
+                  joinBackward(tr, mappedPos);
+                } else {
+                  // Rejecting an inserted wrapper (section) unwraps it
+                  const current = tr.doc.nodeAt(mappedPos);
+                  if (current) {
+                    tr.replaceWith(
+                      mappedPos,
+                      mappedPos + current.nodeSize,
+                      current.content,
+                    );
+                  }
+                }
+              } else if (attribute === "trackedTypeChange") {
+                const info = node.attrs[attribute] as BlockTypeChangeInfo;
+                const previousType = state.schema.nodes[info.previousType];
+                if (previousType) {
+                  const current = tr.doc.nodeAt(mappedPos);
+                  tr.setNodeMarkup(mappedPos, previousType, {
+                    ...info.previousAttrs,
+                    trackedInsertBlock:
+                      current?.attrs.trackedInsertBlock ?? null,
+                    trackedMergeFrom: current?.attrs.trackedMergeFrom ?? null,
+                    trackedTypeChange: null,
+                  });
+                }
+              }
+              // Rejecting a merge keeps the blocks separate - nothing else to do
+            }
+          }
+
+          return true;
+        },
+    };
+  },
+});
+
+export default BlockChanges;
@@ -0,0 +1,163 @@
+import { Extension } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import type { TrackedChangeFilter, TrackedChangeType } from "../lib/types";
+import { matchesChangeFilter } from "../lib/utils/changeFilter";
+import type { BlockChangeInfo } from "./BlockChanges";
+
+const changeFilterKey = new PluginKey("changeFilter");
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    changeFilter: {
+      setChangeFilter: (
+        filter: TrackedChangeFilter | null,
+        hideNonMatching?: boolean,
+      ) => ReturnType;
+    };
+  }
+}
+
+/** Mark names that represent tracked changes (same as the change type) */
+const CHANGE_MARKS = new Set<string>([
+  "insertion",
+  "deletion",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+
+/**
+ * Tracked change kinds recorded as node attributes, by attribute name.
+ * Table attributes depend on whether the node is a row or a cell.
+ */
+function nodeChangeTypes(
+  node: PMNode,
+): Array<[attribute: string, type: TrackedChangeType]> {
+  const tableRole = node.type.spec.tableRole as string | undefined;
+  if (tableRole === "row") {
+    return [
+      ["trackedInsert", "rowInsertion"],
+      ["trackedDelete", "rowDeletion"],
+    ];
+  }
+  if (tableRole === "cell" || tableRole === "header_cell") {
+    return [
+      ["trackedInsert", "columnInsertion"],
+      ["trackedDelete", "columnDeletion"],
+    ];
+  }
+  return [
+    ["trackedInsertBlock", "blockInsertion"],
+    ["trackedMergeFrom", "blockMerge"],
+    ["trackedTypeChange", "blockTypeChange"],
+  ];
+}
+
+/**
+ * ChangeFilter - Fades out tracked changes that don't match a filter
+ *
+ * Reviewers can narrow the document to, say, only the AI Assistant's
+ * changes: non-matching insertions, deletions and structural changes get
+ * the `.change-filtered-out` CSS class so the matching ones stand out.
+ * The document itself is untouched - this is a view-only decoration.
+ *
+ * @example
+ * ```ts
+ * editor.commands.setChangeFilter({ authors: ["AI Assistant"] }, true);
+ * // Show everything again
+ * editor.commands.setChangeFilter(null);
+ * ```
+ */
+export const ChangeFilter = Extension.create({
+  name: "changeFilter",
+
+  addStorage() {
+    return {
+      filter: null as TrackedChangeFilter | null,
+      hideNonMatching: false,
+    };
+  },
+
+  addCommands() {
+    return {
+      setChangeFilter:
+        (filter, hideNonMatching = false) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            this.storage.filter = filter;
+            this.storage.hideNonMatching = hideNonMatching;
+            // Dispatching the transaction redraws the decorations
+            tr.setMeta(changeFilterKey, true);
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const extension = this;
+    return [
+      new Plugin({
+        key: changeFilterKey,
+        props: {
+          decorations(state) {
+            const { filter, hideNonMatching } = extension.storage;
+            if (!filter || !hideNonMatching) return DecorationSet.empty;
+
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (node.isText) {
+                const filteredOut = node.marks.some(
+                  (mark) =>
+                    CHANGE_MARKS.has(mark.type.name) &&
+                    !matchesChangeFilter(
+                      {
+                        type: mark.type.name as TrackedChangeType,
+                        author: mark.attrs.author,
+                        date: mark.attrs.date,
+                      },
+                      filter,
+                    ),
+                );
+                if (filteredOut) {
+                  decorations.push(
+                    Decoration.inline(pos, pos + node.nodeSize, {
+                      class: "change-filtered-out",
+                    }),
+                  );
+                }
+                return;
+              }
+
+              const filteredOut = nodeChangeTypes(node).some(
+                ([attribute, type]) => {
+                  const info = node.attrs[attribute] as BlockChangeInfo | null;
+                  return (
+                    !!info &&
+                    !matchesChangeFilter(
+                      { type, author: info.author, date: info.date },
+                      filter,
+                    )
+                  );
+                },
+              );
+              if (filteredOut) {
+                decorations.push(
+                  Decoration.node(pos, pos + node.nodeSize, {
+                    class: "change-filtered-out",
+                  }),
+                );
+              }
+            });
+
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default ChangeFilter;
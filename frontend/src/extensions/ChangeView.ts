@@ -0,0 +1,154 @@
+import { Extension } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import type { ChangeViewMode } from "../lib/types";
+
+const changeViewKey = new PluginKey("changeView");
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    changeView: {
+      setChangeViewMode: (mode: ChangeViewMode) => ReturnType;
+    };
+  }
+}
+
+/** Marks whose text is gone once every change is accepted / rejected */
+const HIDDEN_MARKS: Record<"final" | "original", Set<string>> = {
+  final: new Set(["deletion", "moveFrom"]),
+  original: new Set(["insertion", "moveTo"]),
+};
+
+/** Table row/cell attribute whose rows and columns are gone in the view */
+const HIDDEN_TABLE_ATTRIBUTE: Record<"final" | "original", string> = {
+  final: "trackedDelete",
+  original: "trackedInsert",
+};
+
+const CHANGE_MARKS = new Set([
+  "insertion",
+  "deletion",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+
+function hasChangeMarks(node: PMNode): boolean {
+  let found = false;
+  node.descendants((child) => {
+    if (found) return false;
+    if (child.marks.some((mark) => CHANGE_MARKS.has(mark.type.name))) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * ChangeView - Shows the document in a review view without changing it
+ *
+ * Text that would disappear in the view (deletions in "final", insertions in
+ * "original") gets the `.change-view-hidden` class, as do deleted/inserted
+ * table rows and columns. In "simple-markup" changed lines also get
+ * `.change-view-changed-line` for a change bar. The editor element carries
+ * `data-change-view` so the remaining change markup can be styled away.
+ * The "final" and "original" views can't be edited, since typing there
+ * would land next to text that is hidden.
+ *
+ * @example
+ * ```ts
+ * editor.commands.setChangeViewMode("final");
+ * ```
+ */
+export const ChangeView = Extension.create({
+  name: "changeView",
+
+  addStorage() {
+    return {
+      mode: "markup" as ChangeViewMode,
+    };
+  },
+
+  addCommands() {
+    return {
+      setChangeViewMode:
+        (mode) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            this.storage.mode = mode;
+            // Dispatching the transaction redraws the decorations
+            tr.setMeta(changeViewKey, mode);
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const extension = this;
+    return [
+      new Plugin({
+        key: changeViewKey,
+        props: {
+          attributes() {
+            return { "data-change-view": extension.storage.mode };
+          },
+          editable() {
+            const mode: ChangeViewMode = extension.storage.mode;
+            return mode !== "final" && mode !== "original";
+          },
+          decorations(state) {
+            const mode: ChangeViewMode = extension.storage.mode;
+            if (mode === "markup") return DecorationSet.empty;
+
+            const view = mode === "original" ? "original" : "final";
+            const hiddenMarks = HIDDEN_MARKS[view];
+            const hiddenAttribute = HIDDEN_TABLE_ATTRIBUTE[view];
+
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (node.isText) {
+                if (
+                  node.marks.some((mark) => hiddenMarks.has(mark.type.name))
+                ) {
+                  decorations.push(
+                    Decoration.inline(pos, pos + node.nodeSize, {
+                      class: "change-view-hidden",
+                    }),
+                  );
+                }
+                return;
+              }
+
+              if (node.type.spec.tableRole && node.attrs[hiddenAttribute]) {
+                decorations.push(
+                  Decoration.node(pos, pos + node.nodeSize, {
+                    class: "change-view-hidden",
+                  }),
+                );
+                return false;
+              }
+
+              if (
+                mode === "simple-markup" &&
+                node.isTextblock &&
+                hasChangeMarks(node)
+              ) {
+                decorations.push(
+                  Decoration.node(pos, pos + node.nodeSize, {
+                    class: "change-view-changed-line",
+                  }),
+                );
+              }
+            });
+
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default ChangeView;
@@ -0,0 +1,131 @@
+import { Extension } from "@tiptap/core";
+import type * as Y from "yjs";
+import type { CollaborationUser } from "../lib/hooks/useCollaboration";
+
+export interface CollaborativeTrackChangesOptions {
+  /** Shared Y.Doc (from useCollaboration) */
+  document: Y.Doc | null;
+  /** Name of the shared map holding the track changes state */
+  field: string;
+  /** Local collaborator; their name is the default track changes author */
+  user: CollaborationUser | null;
+}
+
+export interface CollaborativeTrackChangesStorage {
+  /** Shared map, once the editor is created */
+  map: Y.Map<unknown> | null;
+  /** Listener for remote changes to the map */
+  observer: ((event: Y.YMapEvent<unknown>) => void) | null;
+}
+
+/** TrackChangesMode's author when none was configured */
+const DEFAULT_AUTHOR = "Unknown Author";
+
+/**
+ * CollaborativeTrackChanges - Shares whether track changes is on between
+ * everyone editing a Y.Doc
+ *
+ * The enabled flag lives in a shared Y.Map: turning tracking on or off
+ * turns it on or off for every collaborator, and a client joining late
+ * takes the shared state. So does the locked flag: while any collaborator
+ * has tracking locked, nobody can turn it off. The local collaborator's
+ * name becomes the track changes author unless one was set.
+ * useCollaboration adds this extension.
+ *
+ * @example
+ * ```ts
+ * CollaborativeTrackChanges.configure({ document: ydoc, user });
+ * ```
+ */
+export const CollaborativeTrackChanges = Extension.create<
+  CollaborativeTrackChangesOptions,
+  CollaborativeTrackChangesStorage
+>({
+  name: "collaborativeTrackChanges",
+
+  addOptions() {
+    return {
+      document: null,
+      field: "trackChanges",
+      user: null,
+    };
+  },
+
+  addStorage() {
+    return {
+      map: null,
+      observer: null,
+    };
+  },
+
+  onCreate() {
+    const { document, field, user } = this.options;
+    const trackChanges = this.editor.storage.trackChangesMode;
+    if (!document || !trackChanges) return;
+
+    if (user?.name && trackChanges.author === DEFAULT_AUTHOR) {
+      this.editor.commands.setTrackChangesAuthor(user.name);
+    }
+
+    const map = document.getMap<unknown>(field);
+    const applySharedState = () => {
+      // Locked tracking stays on: turning it off is undone for everyone
+      if (map.get("locked") === true && map.get("enabled") !== true) {
+        map.set("enabled", true);
+      }
+      const enabled = map.get("enabled");
+      if (typeof enabled !== "boolean" || enabled === trackChanges.enabled) {
+        return;
+      }
+      if (enabled) {
+        this.editor.commands.enableTrackChanges();
+      } else {
+        this.editor.commands.disableTrackChanges();
+      }
+    };
+
+    // The first client seeds the shared state; later ones adopt it
+    if (trackChanges.locked) map.set("locked", true);
+    if (map.has("enabled")) {
+      applySharedState();
+    } else {
+      map.set("enabled", trackChanges.enabled);
+    }
+
+    const observer = (event: Y.YMapEvent<unknown>) => {
+      if (!event.transaction.local) applySharedState();
+    };
+    map.observe(observer);
+    this.storage.map = map;
+    this.storage.observer = observer;
+  },
+
+  onTransaction({ transaction }) {
+    // enable/disable/lock/unlockTrackChanges mark their transactions
+    const enabled = transaction.getMeta("trackChangesEnabled");
+    const locked = transaction.getMeta("trackChangesLocked");
+    const { map } = this.storage;
+    if (!map) return;
+    if (typeof locked === "boolean" && map.get("locked") !== locked) {
+      map.set("locked", locked);
+    }
+    if (typeof enabled !== "boolean") return;
+    if (!enabled && map.get("locked") === true) {
+      // Another collaborator has tracking locked on
+      this.editor.commands.enableTrackChanges();
+      return;
+    }
+    if (map.get("enabled") !== enabled) {
+      map.set("enabled", enabled);
+    }
+  },
+
+  onDestroy() {
+    const { map, observer } = this.storage;
+    if (map && observer) map.unobserve(observer);
+    this.storage.map = null;
+    this.storage.observer = null;
+  },
+});
+
+export default CollaborativeTrackChanges;
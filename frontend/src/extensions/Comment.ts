@@ -15,13 +15,24 @@ declare module "@tiptap/core" {
       }) => ReturnType;
       unsetComment: () => ReturnType;
       removeComment: (commentId: string) => ReturnType;
+      /** Mark a comment's highlight as resolved (or open again) */
+      setCommentResolved: (commentId: string, resolved: boolean) => ReturnType;
     };
   }
 }
 
+/**
+ * Comment - Highlights the text a comment thread is about
+ *
+ * Comments can overlap or nest: the same text can carry one mark per
+ * comment, each with its own commentId (as Word documents often do).
+ */
 export const Comment = Mark.create<CommentOptions>({
   name: "comment",
 
+  // Any number of comments can cover the same text
+  excludes: "",
+
   addOptions() {
     return {
       HTMLAttributes: {},
@@ -62,6 +73,15 @@ export const Comment = Mark.create<CommentOptions>({
           return { "data-comment-text": attributes.text };
         },
       },
+      resolved: {
+        default: false,
+        parseHTML: (element) =>
+          element.getAttribute("data-comment-resolved") === "true",
+        renderHTML: (attributes) => {
+          if (!attributes.resolved) return {};
+          return { "data-comment-resolved": "true" };
+        },
+      },
     };
   },
 
@@ -90,8 +110,21 @@ export const Comment = Mark.create<CommentOptions>({
     return {
       setComment:
         (attributes) =>
-        ({ commands }) => {
-          return commands.setMark(this.name, attributes);
+        ({ tr, state, dispatch }) => {
+          // A fresh mark, not setMark: that would merge the new comment's
+          // attributes into a comment already on the text
+          const mark = this.type.create(attributes);
+          const { empty, ranges } = state.selection;
+          if (dispatch) {
+            if (empty) {
+              tr.addStoredMark(mark);
+            } else {
+              ranges.forEach((range) => {
+                tr.addMark(range.$from.pos, range.$to.pos, mark);
+              });
+            }
+          }
+          return true;
         },
       unsetComment:
         () =>
@@ -105,7 +138,17 @@ export const Comment = Mark.create<CommentOptions>({
           const { doc } = state;
           let found = false;
 
+          // Point anchors left by CommentAnchor, deleted back to front
+          const anchors: number[] = [];
+
           doc.descendants((node, pos) => {
+            if (
+              node.type.name === "commentAnchor" &&
+              node.attrs.commentId === commentId
+            ) {
+              anchors.push(pos);
+              return;
+            }
             if (node.isText) {
               const marks = node.marks.filter(
                 (mark) =>
@@ -115,14 +158,55 @@ export const Comment = Mark.create<CommentOptions>({
               if (marks.length > 0) {
                 found = true;
                 if (dispatch) {
+                  // Just this comment's mark; others on the text stay
                   marks.forEach((mark) => {
-                    tr.removeMark(pos, pos + node.nodeSize, mark.type);
+                    tr.removeMark(pos, pos + node.nodeSize, mark);
                   });
                 }
               }
             }
           });
 
+          if (anchors.length > 0) {
+            found = true;
+            if (dispatch) {
+              anchors.reverse().forEach((pos) => tr.delete(pos, pos + 1));
+            }
+          }
+
+          return found;
+        },
+      setCommentResolved:
+        (commentId, resolved) =>
+        ({ tr, state, dispatch }) => {
+          const { doc } = state;
+          let found = false;
+
+          doc.descendants((node, pos) => {
+            if (node.isText) {
+              node.marks.forEach((mark) => {
+                if (
+                  mark.type.name !== "comment" ||
+                  mark.attrs.commentId !== commentId
+                ) {
+                  return;
+                }
+                found = true;
+                if (dispatch && mark.attrs.resolved !== resolved) {
+                  const end = pos + node.nodeSize;
+                  tr.removeMark(pos, end, mark);
+                  tr.addMark(
+                    pos,
+                    end,
+                    mark.type.create({ ...mark.attrs, resolved }),
+                  );
+                }
+              });
+            }
+          });
+
+          // Resolving a thread isn't an edit to track
+          if (dispatch && found) tr.setMeta("trackChangesProcessed", true);
           return found;
         },
     };
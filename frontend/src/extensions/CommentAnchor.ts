@@ -0,0 +1,219 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey, Selection } from "@tiptap/pm/state";
+import type { Transaction } from "@tiptap/pm/state";
+import {
+  AddMarkStep,
+  Mapping,
+  RemoveMarkStep,
+  ReplaceStep,
+} from "@tiptap/pm/transform";
+import { ySyncPluginKey } from "y-prosemirror";
+
+export interface CommentAnchorOptions {
+  HTMLAttributes: Record<string, unknown>;
+  /**
+   * Leave an anchor where a comment's text was deleted, so the comment
+   * stays attached to the document (default: true)
+   */
+  anchorDeletedComments: boolean;
+}
+
+export const commentAnchorPluginKey = new PluginKey("commentAnchor");
+
+/**
+ * Where each comment is in the document: the start of its first highlight,
+ * or its anchor
+ */
+export function getCommentPositions(doc: PMNode) {
+  const marks = new Map<string, number>();
+  const anchors = new Map<string, number>();
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === "commentAnchor" && node.attrs.commentId) {
+      if (!anchors.has(node.attrs.commentId)) {
+        anchors.set(node.attrs.commentId, pos);
+      }
+      return;
+    }
+    if (!node.isText) return;
+    node.marks.forEach((mark) => {
+      const commentId = mark.attrs.commentId;
+      if (mark.type.name === "comment" && commentId && !marks.has(commentId)) {
+        marks.set(commentId, pos);
+      }
+    });
+  });
+
+  return { marks, anchors };
+}
+
+/**
+ * Whether transactions only add or remove marks (removeComment, for one,
+ * takes a comment off text that is still there)
+ */
+function onlyChangesMarks(transactions: readonly Transaction[]): boolean {
+  return transactions.every((tr) =>
+    tr.steps.every(
+      (step) => step instanceof AddMarkStep || step instanceof RemoveMarkStep,
+    ),
+  );
+}
+
+/**
+ * Whether transactions replace the whole document (setContent): new
+ * content rather than an edit, so there's nothing to anchor to
+ */
+function replacesDocument(
+  transactions: readonly Transaction[],
+  doc: PMNode,
+): boolean {
+  return transactions.some((tr) =>
+    tr.steps.some(
+      (step) =>
+        step instanceof ReplaceStep &&
+        step.from === 0 &&
+        step.to === doc.content.size,
+    ),
+  );
+}
+
+/**
+ * CommentAnchor - Zero-width point a comment is attached to after the text
+ * it was on has been deleted
+ *
+ * When an edit deletes all of a comment's highlighted text (typing over it,
+ * or accepting a tracked deletion), an anchor is left where the text was so
+ * the thread keeps its place in the document. If the text comes back (undo)
+ * the anchor goes away again. Deleting the anchor itself orphans the
+ * comment; see useComments' onOrphaned.
+ *
+ * With track changes on, deleted text stays in the document as a tracked
+ * deletion and keeps its comment highlight, so no anchor is needed.
+ */
+export const CommentAnchor = Node.create<CommentAnchorOptions>({
+  name: "commentAnchor",
+
+  // After TrackChangesMode, so deletions it keeps as tracked changes (with
+  // their comments) aren't mistaken for deleted text
+  priority: 50,
+
+  group: "inline",
+
+  inline: true,
+
+  atom: true,
+
+  selectable: false,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      anchorDeletedComments: true,
+    };
+  },
+
+  addAttributes() {
+    return {
+      commentId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-comment-anchor"),
+        renderHTML: (attributes) => ({
+          "data-comment-anchor": attributes.commentId,
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-comment-anchor]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "span",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        class: "comment-anchor",
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    if (!this.options.anchorDeletedComments) return [];
+    const anchorType = this.type;
+
+    return [
+      new Plugin({
+        key: commentAnchorPluginKey,
+
+        appendTransaction(transactions, oldState, newState) {
+          if (!transactions.some((tr) => tr.docChanged)) return null;
+          // Remote edits arrive with their anchors already in place
+          if (
+            transactions.some(
+              (tr) => tr.getMeta(ySyncPluginKey)?.isChangeOrigin,
+            )
+          ) {
+            return null;
+          }
+          if (
+            onlyChangesMarks(transactions) ||
+            replacesDocument(transactions, oldState.doc)
+          ) {
+            return null;
+          }
+
+          const before = getCommentPositions(oldState.doc);
+          const after = getCommentPositions(newState.doc);
+
+          const mapping = new Mapping();
+          transactions.forEach((tr) => {
+            tr.mapping.maps.forEach((map) => mapping.appendMap(map));
+          });
+
+          // Comments whose text was all deleted, and where it was
+          const lost: Array<{ commentId: string; pos: number }> = [];
+          before.marks.forEach((pos, commentId) => {
+            if (after.marks.has(commentId) || after.anchors.has(commentId)) {
+              return;
+            }
+            lost.push({ commentId, pos: mapping.map(pos, -1) });
+          });
+
+          // Anchors whose comment has its text back
+          const restored = [...after.anchors].filter(([commentId]) =>
+            after.marks.has(commentId),
+          );
+
+          if (lost.length === 0 && restored.length === 0) return null;
+
+          const tr = newState.tr;
+          restored
+            .map(([, pos]) => pos)
+            .sort((a, b) => b - a)
+            .forEach((pos) => tr.delete(pos, pos + 1));
+
+          lost.forEach(({ commentId, pos }) => {
+            // Nearest place inline content can go
+            const $pos = tr.doc.resolve(tr.mapping.map(pos));
+            const target = $pos.parent.inlineContent
+              ? $pos.pos
+              : (
+                  Selection.findFrom($pos, -1, true) ??
+                  Selection.findFrom($pos, 1, true)
+                )?.from;
+            if (target === undefined) return;
+            tr.insert(target, anchorType.create({ commentId }));
+          });
+
+          if (!tr.docChanged) return null;
+          // Keeping comments attached isn't an edit to track
+          tr.setMeta("trackChangesProcessed", true);
+          return tr;
+        },
+      }),
+    ];
+  },
+});
+
+export default CommentAnchor;
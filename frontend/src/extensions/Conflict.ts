@@ -0,0 +1,163 @@
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+
+export interface ConflictOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+export type ConflictSide = "ours" | "theirs";
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    conflict: {
+      /** Replace a conflict with one side's version of the content */
+      resolveConflict: (conflictId: string, side: ConflictSide) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Conflict - Two competing versions of the same content, left by
+ * mergeDocuments where both sides edited the same block
+ *
+ * Holds exactly two `conflictVersion` nodes ("ours" then "theirs"), each
+ * carrying that side's edits as tracked changes. Resolving the conflict
+ * keeps one version's blocks (and their tracked changes) in its place.
+ *
+ * @example
+ * ```ts
+ * editor.commands.resolveConflict("conflict-123", "theirs");
+ * ```
+ */
+export const Conflict = Node.create<ConflictOptions>({
+  name: "conflict",
+
+  group: "block",
+
+  content: "conflictVersion conflictVersion",
+
+  defining: true,
+
+  isolating: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-conflict-id"),
+        renderHTML: (attributes) => {
+          if (!attributes.id) return {};
+          return { "data-conflict-id": attributes.id };
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-conflict-id]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        class: "conflict",
+      }),
+      0,
+    ];
+  },
+
+  addCommands() {
+    return {
+      resolveConflict:
+        (conflictId, side) =>
+        ({ tr, state, dispatch }) => {
+          let found = null as { node: PMNode; pos: number } | null;
+          state.doc.descendants((node, pos) => {
+            if (found) return false;
+            if (node.type.name === this.name && node.attrs.id === conflictId) {
+              found = { node, pos };
+              return false;
+            }
+          });
+          if (!found) return false;
+
+          let version = null as PMNode | null;
+          found.node.forEach((child) => {
+            if (child.attrs.side === side) version = child;
+          });
+          if (!version) return false;
+
+          if (dispatch) {
+            tr.replaceWith(
+              found.pos,
+              found.pos + found.node.nodeSize,
+              version.content,
+            );
+            // The kept version already records its changes
+            tr.setMeta("trackChangesProcessed", true);
+          }
+          return true;
+        },
+    };
+  },
+});
+
+/**
+ * One side's version inside a Conflict
+ */
+export const ConflictVersion = Node.create<ConflictOptions>({
+  name: "conflictVersion",
+
+  content: "block+",
+
+  defining: true,
+
+  isolating: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addAttributes() {
+    return {
+      side: {
+        default: "ours",
+        parseHTML: (element) => element.getAttribute("data-side"),
+        renderHTML: (attributes) => ({ "data-side": attributes.side }),
+      },
+      author: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-author"),
+        renderHTML: (attributes) => {
+          if (!attributes.author) return {};
+          return { "data-author": attributes.author };
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-side]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        class: "conflict-version",
+      }),
+      0,
+    ];
+  },
+});
+
+export default Conflict;
@@ -0,0 +1,280 @@
+import { Mark, mergeAttributes } from "@tiptap/core";
+import type { Mark as PMMark, Schema } from "@tiptap/pm/model";
+import { getAuthorColor } from "../lib/utils/authorColors";
+
+export interface FormatChangeOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+/**
+ * Serialized form of a formatting mark, as stored in `previousMarks`
+ */
+export interface FormatChangeMarkSpec {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    formatChange: {
+      setFormatChange: (attributes: {
+        id: string;
+        author: string;
+        date?: string;
+        previousMarks: FormatChangeMarkSpec[];
+      }) => ReturnType;
+      unsetFormatChange: () => ReturnType;
+      acceptFormatChange: (id: string) => ReturnType;
+      rejectFormatChange: (id: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Marks that are part of the track changes / annotation machinery rather
+ * than document formatting. Adding or removing these is never recorded as a
+ * format change.
+ */
+export const NON_FORMATTING_MARKS = new Set([
+  "insertion",
+  "deletion",
+  "comment",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+
+/**
+ * Check whether a mark is a formatting mark (bold, italic, ...) whose
+ * changes should be tracked.
+ */
+export function isFormattingMark(mark: PMMark): boolean {
+  return !NON_FORMATTING_MARKS.has(mark.type.name);
+}
+
+/**
+ * Serialize the formatting marks of a node for storage in `previousMarks`
+ */
+export function serializeFormattingMarks(
+  marks: readonly PMMark[],
+): FormatChangeMarkSpec[] {
+  return marks.filter(isFormattingMark).map((mark) => {
+    const attrs = mark.attrs as Record<string, unknown>;
+    return Object.keys(attrs).length > 0
+      ? { type: mark.type.name, attrs }
+      : { type: mark.type.name };
+  });
+}
+
+/**
+ * Re-create marks from their serialized form, skipping unknown mark types
+ */
+export function deserializeFormattingMarks(
+  schema: Schema,
+  specs: FormatChangeMarkSpec[],
+): PMMark[] {
+  const marks: PMMark[] = [];
+  for (const spec of specs) {
+    const markType = schema.marks[spec.type];
+    if (markType) {
+      marks.push(markType.create(spec.attrs));
+    }
+  }
+  return marks;
+}
+
+/**
+ * Human-readable description of a formatting change, e.g.
+ * "Formatted: Bold, Not Italic"
+ */
+export function describeFormatChange(
+  previousMarks: FormatChangeMarkSpec[],
+  currentMarks: FormatChangeMarkSpec[],
+): string {
+  const previous = new Set(previousMarks.map((m) => m.type));
+  const current = new Set(currentMarks.map((m) => m.type));
+  const label = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+  const parts: string[] = [];
+  current.forEach((name) => {
+    if (!previous.has(name)) parts.push(label(name));
+  });
+  previous.forEach((name) => {
+    if (!current.has(name)) parts.push(`Not ${label(name)}`);
+  });
+
+  return parts.length > 0 ? `Formatted: ${parts.join(", ")}` : "Formatted";
+}
+
+function parsePreviousMarks(value: unknown): FormatChangeMarkSpec[] {
+  if (Array.isArray(value)) return value as FormatChangeMarkSpec[];
+  if (typeof value !== "string" || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Tracked formatting change (Word's "Formatted:" revision).
+ *
+ * The mark records who changed the formatting of a run of text and which
+ * formatting marks it carried before, so the change can be rejected by
+ * restoring `previousMarks`.
+ */
+export const FormatChange = Mark.create<FormatChangeOptions>({
+  name: "formatChange",
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-format-change-id"),
+        renderHTML: (attributes) => {
+          if (!attributes.id) return {};
+          return { "data-format-change-id": attributes.id };
+        },
+      },
+      author: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-author"),
+        renderHTML: (attributes) => {
+          if (!attributes.author) return {};
+          return { "data-author": attributes.author };
+        },
+      },
+      date: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-date"),
+        renderHTML: (attributes) => {
+          if (!attributes.date) return {};
+          return { "data-date": attributes.date };
+        },
+      },
+      previousMarks: {
+        default: [],
+        parseHTML: (element) =>
+          parsePreviousMarks(element.getAttribute("data-previous-marks")),
+        renderHTML: (attributes) => {
+          return {
+            "data-previous-marks": JSON.stringify(
+              parsePreviousMarks(attributes.previousMarks),
+            ),
+          };
+        },
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "span[data-format-change-id]",
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    const author = HTMLAttributes["data-author"] || "";
+    const authorColor = getAuthorColor(author);
+
+    return [
+      "span",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        class: "format-change",
+        style: `--author-color: ${authorColor.primary}; --author-color-light: ${authorColor.light};`,
+      }),
+      0,
+    ];
+  },
+
+  addCommands() {
+    return {
+      setFormatChange:
+        (attributes) =>
+        ({ commands }) => {
+          return commands.setMark(this.name, attributes);
+        },
+      unsetFormatChange:
+        () =>
+        ({ commands }) => {
+          return commands.unsetMark(this.name);
+        },
+      acceptFormatChange:
+        (id) =>
+        ({ tr, state, dispatch }) => {
+          // Accept format change: keep the new formatting, drop the record
+          const { doc } = state;
+          let found = false;
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          doc.descendants((node, pos) => {
+            if (node.isText) {
+              const marks = node.marks.filter(
+                (mark) =>
+                  mark.type.name === "formatChange" && mark.attrs.id === id,
+              );
+              if (marks.length > 0) {
+                found = true;
+                if (dispatch) {
+                  tr.removeMark(pos, pos + node.nodeSize, this.type);
+                }
+              }
+            }
+          });
+
+          return found;
+        },
+      rejectFormatChange:
+        (id) =>
+        ({ tr, state, dispatch }) => {
+          // Reject format change: restore the previous formatting marks
+          const { doc, schema } = state;
+          let found = false;
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          doc.descendants((node, pos) => {
+            if (node.isText) {
+              const changeMark = node.marks.find(
+                (mark) =>
+                  mark.type.name === "formatChange" && mark.attrs.id === id,
+              );
+              if (changeMark) {
+                found = true;
+                if (dispatch) {
+                  const from = pos;
+                  const to = pos + node.nodeSize;
+                  node.marks.filter(isFormattingMark).forEach((mark) => {
+                    tr.removeMark(from, to, mark);
+                  });
+                  deserializeFormattingMarks(
+                    schema,
+                    parsePreviousMarks(changeMark.attrs.previousMarks),
+                  ).forEach((mark) => {
+                    tr.addMark(from, to, mark);
+                  });
+                  tr.removeMark(from, to, this.type);
+                }
+              }
+            }
+          });
+
+          return found;
+        },
+    };
+  },
+});
+
+export default FormatChange;
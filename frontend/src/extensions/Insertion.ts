@@ -55,6 +55,15 @@ export const Insertion = Mark.create<InsertionOptions>({
           return { "data-date": attributes.date };
         },
       },
+      // Why the change was made (e.g. the AI's explanation for an edit)
+      reason: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-reason"),
+        renderHTML: (attributes) => {
+          if (!attributes.reason) return {};
+          return { "data-reason": attributes.reason };
+        },
+      },
     };
   },
 
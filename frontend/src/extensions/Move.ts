@@ -0,0 +1,236 @@
+import { Mark, mergeAttributes } from "@tiptap/core";
+import type { MarkType, Node as PMNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { getAuthorColor } from "../lib/utils/authorColors";
+
+export interface MoveOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    move: {
+      acceptMove: (moveId: string) => ReturnType;
+      rejectMove: (moveId: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Attributes shared by both halves of a move. `id` identifies the half,
+ * `moveId` pairs the "moved from" text with its "moved to" copy.
+ */
+function moveAttributes(idAttribute: string) {
+  return {
+    id: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute(idAttribute),
+      renderHTML: (attributes: Record<string, unknown>) => {
+        if (!attributes.id) return {};
+        return { [idAttribute]: attributes.id };
+      },
+    },
+    moveId: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute("data-move-id"),
+      renderHTML: (attributes: Record<string, unknown>) => {
+        if (!attributes.moveId) return {};
+        return { "data-move-id": attributes.moveId };
+      },
+    },
+    author: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute("data-author"),
+      renderHTML: (attributes: Record<string, unknown>) => {
+        if (!attributes.author) return {};
+        return { "data-author": attributes.author };
+      },
+    },
+    date: {
+      default: null,
+      parseHTML: (element: HTMLElement) => element.getAttribute("data-date"),
+      renderHTML: (attributes: Record<string, unknown>) => {
+        if (!attributes.date) return {};
+        return { "data-date": attributes.date };
+      },
+    },
+  };
+}
+
+/**
+ * Whether the document still contains either half of a move
+ */
+function hasMove(doc: PMNode, moveId: string): boolean {
+  let found = false;
+  doc.descendants((node) => {
+    if (found) return false;
+    if (
+      node.isText &&
+      node.marks.some(
+        (mark) =>
+          (mark.type.name === "moveFrom" || mark.type.name === "moveTo") &&
+          mark.attrs.moveId === moveId,
+      )
+    ) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+/**
+ * Resolve one half of a move: either drop its text or keep the text and
+ * drop the mark. Text is deleted last-first so positions stay valid.
+ */
+function resolveMoveHalf(
+  tr: Transaction,
+  doc: PMNode,
+  markType: MarkType,
+  moveId: string,
+  removeText: boolean,
+) {
+  const ranges: Array<{ from: number; to: number }> = [];
+  doc.descendants((node, pos) => {
+    if (
+      node.isText &&
+      node.marks.some(
+        (mark) => mark.type === markType && mark.attrs.moveId === moveId,
+      )
+    ) {
+      ranges.push({ from: pos, to: pos + node.nodeSize });
+    }
+  });
+
+  for (const { from, to } of ranges.reverse()) {
+    const mappedFrom = tr.mapping.map(from);
+    const mappedTo = tr.mapping.map(to);
+    if (removeText) {
+      tr.delete(mappedFrom, mappedTo);
+    } else {
+      tr.removeMark(mappedFrom, mappedTo, markType);
+    }
+  }
+}
+
+/**
+ * Source of a tracked move (Word's `w:moveFrom`): the text as it was in its
+ * original place. Accepting the move removes it.
+ */
+export const MoveFrom = Mark.create<MoveOptions>({
+  name: "moveFrom",
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addAttributes() {
+    return moveAttributes("data-move-from-id");
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "del[data-move-from-id]",
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    const author = HTMLAttributes["data-author"] || "";
+    const authorColor = getAuthorColor(author);
+
+    return [
+      "del",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        class: "move-from",
+        style: `--author-color: ${authorColor.primary}; --author-color-light: ${authorColor.light};`,
+      }),
+      0,
+    ];
+  },
+
+  addCommands() {
+    return {
+      acceptMove:
+        (moveId) =>
+        ({ tr, state, dispatch }) => {
+          const { moveFrom, moveTo } = state.schema.marks;
+          if (!moveFrom || !moveTo || !hasMove(state.doc, moveId)) {
+            return false;
+          }
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          if (dispatch) {
+            // Accept move: keep the text at its new place, drop the original
+            resolveMoveHalf(tr, state.doc, moveTo, moveId, false);
+            resolveMoveHalf(tr, state.doc, moveFrom, moveId, true);
+          }
+
+          return true;
+        },
+      rejectMove:
+        (moveId) =>
+        ({ tr, state, dispatch }) => {
+          const { moveFrom, moveTo } = state.schema.marks;
+          if (!moveFrom || !moveTo || !hasMove(state.doc, moveId)) {
+            return false;
+          }
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          if (dispatch) {
+            // Reject move: keep the text where it was, drop the copy
+            resolveMoveHalf(tr, state.doc, moveFrom, moveId, false);
+            resolveMoveHalf(tr, state.doc, moveTo, moveId, true);
+          }
+
+          return true;
+        },
+    };
+  },
+});
+
+/**
+ * Destination of a tracked move (Word's `w:moveTo`): the text at its new
+ * place. Rejecting the move removes it.
+ */
+export const MoveTo = Mark.create<MoveOptions>({
+  name: "moveTo",
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addAttributes() {
+    return moveAttributes("data-move-to-id");
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: "ins[data-move-to-id]",
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    const author = HTMLAttributes["data-author"] || "";
+    const authorColor = getAuthorColor(author);
+
+    return [
+      "ins",
+      mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+        class: "move-to",
+        style: `--author-color: ${authorColor.primary}; --author-color-light: ${authorColor.light};`,
+      }),
+      0,
+    ];
+  },
+});
@@ -0,0 +1,373 @@
+import { Extension } from "@tiptap/core";
+import type { Editor } from "@tiptap/core";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import type { EditorState, Transaction } from "@tiptap/pm/state";
+import {
+  TableMap,
+  addColumn,
+  addRow,
+  isInTable,
+  removeColumn,
+  removeRow,
+  selectedRect,
+  type TableRect,
+} from "@tiptap/pm/tables";
+import { createTrackedAttribute, type BlockChangeInfo } from "./BlockChanges";
+
+export interface TableChangesOptions {
+  /** Row node types that carry row revisions */
+  rowTypes: string[];
+  /** Cell node types that carry column revisions */
+  cellTypes: string[];
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    tableChanges: {
+      acceptTableChange: (id: string) => ReturnType;
+      rejectTableChange: (id: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Attributes used for table revisions. On a row they record an inserted or
+ * deleted row; on cells they record an inserted or deleted column (every
+ * cell of the column shares the revision ID).
+ */
+export const TRACKED_TABLE_ATTRIBUTES = [
+  "trackedInsert",
+  "trackedDelete",
+] as const;
+
+export type TrackedTableAttribute = (typeof TRACKED_TABLE_ATTRIBUTES)[number];
+
+type TableDispatch = ((tr: Transaction) => void) | undefined;
+
+function generateTableChangeId(): string {
+  return `tbl-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function createChangeInfo(author: string): BlockChangeInfo {
+  return {
+    id: generateTableChangeId(),
+    author,
+    date: new Date().toISOString(),
+  };
+}
+
+/**
+ * The author to record table revisions for, or null when track changes is
+ * disabled (or the TrackChangesMode extension isn't loaded)
+ */
+export function getTableTrackingAuthor(editor: Editor): string | null {
+  const storage = editor.storage.trackChangesMode;
+  if (!storage?.enabled) return null;
+  return storage.author || "Unknown Author";
+}
+
+/**
+ * Re-read the table of a rect from the transaction's current document
+ */
+function currentRect(tr: Transaction, rect: TableRect): TableRect {
+  const table = tr.doc.nodeAt(rect.tableStart - 1) as PMNode;
+  return { ...rect, table, map: TableMap.get(table) };
+}
+
+/**
+ * Absolute positions of the distinct cells in a table column
+ */
+function columnCellPositions(rect: TableRect, col: number): number[] {
+  const positions = new Set<number>();
+  for (let row = 0; row < rect.map.height; row++) {
+    positions.add(rect.tableStart + rect.map.map[row * rect.map.width + col]);
+  }
+  return Array.from(positions);
+}
+
+/**
+ * Absolute position of a table row
+ */
+function rowPosition(rect: TableRect, row: number): number {
+  let pos = rect.tableStart;
+  for (let i = 0; i < row; i++) {
+    pos += rect.table.child(i).nodeSize;
+  }
+  return pos;
+}
+
+function isOwnInsertion(node: PMNode | null, author: string): boolean {
+  const info = node?.attrs.trackedInsert as BlockChangeInfo | null;
+  return !!info && info.author === author;
+}
+
+/**
+ * Insert a row before/after the selection and record it as an insertion
+ */
+export function insertTrackedRow(
+  state: EditorState,
+  tr: Transaction,
+  dispatch: TableDispatch,
+  side: "before" | "after",
+  author: string,
+): boolean {
+  if (!isInTable(state)) return false;
+
+  if (dispatch) {
+    const rect = selectedRect(state);
+    const row = side === "before" ? rect.top : rect.bottom;
+    addRow(tr, rect, row);
+
+    const pos = rowPosition(currentRect(tr, rect), row);
+    tr.setNodeAttribute(pos, "trackedInsert", createChangeInfo(author));
+    // The new row is already recorded - don't track its empty paragraphs
+    tr.setMeta("trackChangesProcessed", true);
+  }
+
+  return true;
+}
+
+/**
+ * Insert a column before/after the selection and record it as an insertion
+ */
+export function insertTrackedColumn(
+  state: EditorState,
+  tr: Transaction,
+  dispatch: TableDispatch,
+  side: "before" | "after",
+  author: string,
+): boolean {
+  if (!isInTable(state)) return false;
+
+  if (dispatch) {
+    const rect = selectedRect(state);
+    const col = side === "before" ? rect.left : rect.right;
+    addColumn(tr, rect, col);
+
+    const info = createChangeInfo(author);
+    for (const pos of columnCellPositions(currentRect(tr, rect), col)) {
+      tr.setNodeAttribute(pos, "trackedInsert", info);
+    }
+    // The new column is already recorded - don't track its empty paragraphs
+    tr.setMeta("trackChangesProcessed", true);
+  }
+
+  return true;
+}
+
+/**
+ * Record the selected rows as deleted. Rows the author inserted themselves
+ * are removed outright.
+ */
+export function deleteTrackedRows(
+  state: EditorState,
+  tr: Transaction,
+  dispatch: TableDispatch,
+  author: string,
+): boolean {
+  if (!isInTable(state)) return false;
+  const rect = selectedRect(state);
+  // Same guard as deleteRow: deleting every row is deleting the table
+  if (rect.top === 0 && rect.bottom === rect.map.height) return false;
+
+  if (dispatch) {
+    const info = createChangeInfo(author);
+    for (let row = rect.bottom - 1; row >= rect.top; row--) {
+      const current = currentRect(tr, rect);
+      const pos = rowPosition(current, row);
+      const node = tr.doc.nodeAt(pos);
+      if (isOwnInsertion(node, author)) {
+        removeRow(tr, current, row);
+      } else if (node && !node.attrs.trackedDelete) {
+        tr.setNodeAttribute(pos, "trackedDelete", info);
+      }
+    }
+    tr.setMeta("trackChangesProcessed", true);
+  }
+
+  return true;
+}
+
+/**
+ * Record the selected columns as deleted. Columns the author inserted
+ * themselves are removed outright.
+ */
+export function deleteTrackedColumns(
+  state: EditorState,
+  tr: Transaction,
+  dispatch: TableDispatch,
+  author: string,
+): boolean {
+  if (!isInTable(state)) return false;
+  const rect = selectedRect(state);
+  // Same guard as deleteColumn: deleting every column is deleting the table
+  if (rect.left === 0 && rect.right === rect.map.width) return false;
+
+  if (dispatch) {
+    const info = createChangeInfo(author);
+    for (let col = rect.right - 1; col >= rect.left; col--) {
+      const current = currentRect(tr, rect);
+      const positions = columnCellPositions(current, col);
+      if (
+        positions.every((pos) => isOwnInsertion(tr.doc.nodeAt(pos), author))
+      ) {
+        removeColumn(tr, current, col);
+        continue;
+      }
+      for (const pos of positions) {
+        if (!tr.doc.nodeAt(pos)?.attrs.trackedDelete) {
+          tr.setNodeAttribute(pos, "trackedDelete", info);
+        }
+      }
+    }
+    tr.setMeta("trackChangesProcessed", true);
+  }
+
+  return true;
+}
+
+/**
+ * Remove the row or the whole column containing the node at `pos`. The
+ * table itself is removed when this would leave it empty.
+ */
+function removeTablePart(tr: Transaction, pos: number, node: PMNode) {
+  const $pos = tr.doc.resolve(pos);
+  const isRow = node.type.spec.tableRole === "row";
+  const tableDepth = isRow ? $pos.depth : $pos.depth - 1;
+  const table = $pos.node(tableDepth);
+  const tableStart = $pos.start(tableDepth);
+  const map = TableMap.get(table);
+  const rect: TableRect = {
+    left: 0,
+    top: 0,
+    right: map.width,
+    bottom: map.height,
+    tableStart,
+    table,
+    map,
+  };
+
+  if (isRow) {
+    if (map.height === 1) {
+      tr.delete(tableStart - 1, tableStart - 1 + table.nodeSize);
+    } else {
+      removeRow(tr, rect, $pos.index());
+    }
+  } else if (map.width === 1) {
+    tr.delete(tableStart - 1, tableStart - 1 + table.nodeSize);
+  } else {
+    removeColumn(tr, rect, map.colCount(pos - tableStart));
+  }
+}
+
+/**
+ * Table revision attributes for rows and cells.
+ *
+ * TableWithId records row/column insertions and deletions through these
+ * attributes while track changes is enabled; this extension declares them
+ * and provides the accept/reject commands.
+ */
+export const TableChanges = Extension.create<TableChangesOptions>({
+  name: "tableChanges",
+
+  addOptions() {
+    return {
+      rowTypes: ["tableRow"],
+      cellTypes: ["tableCell", "tableHeader"],
+    };
+  },
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: [...this.options.rowTypes, ...this.options.cellTypes],
+        attributes: {
+          trackedInsert: createTrackedAttribute(
+            "trackedInsert",
+            "tracked-table-change",
+          ),
+          trackedDelete: createTrackedAttribute(
+            "trackedDelete",
+            "tracked-table-change",
+          ),
+        },
+      },
+    ];
+  },
+
+  addCommands() {
+    // Collect rows/cells carrying a revision with the given ID, last first
+    // so removals don't shift the positions still to be processed
+    const findParts = (doc: PMNode, id: string) => {
+      const found: Array<{
+        pos: number;
+        attribute: TrackedTableAttribute;
+      }> = [];
+      doc.descendants((node, pos) => {
+        for (const attribute of TRACKED_TABLE_ATTRIBUTES) {
+          const info = node.attrs[attribute] as BlockChangeInfo | null;
+          if (info && info.id === id) {
+            found.push({ pos, attribute });
+          }
+        }
+      });
+      return found.reverse();
+    };
+
+    // Accepting a deletion / rejecting an insertion removes the row or
+    // column; the other outcome just drops the record
+    const resolve = (
+      tr: Transaction,
+      doc: PMNode,
+      id: string,
+      removedBy: TrackedTableAttribute,
+    ) => {
+      for (const { pos, attribute } of findParts(doc, id)) {
+        const mapped = tr.mapping.mapResult(pos);
+        // Already gone with an earlier cell of the same column
+        if (mapped.deleted) continue;
+        const node = tr.doc.nodeAt(mapped.pos);
+        if (!node || !node.attrs[attribute]) continue;
+
+        if (attribute === removedBy) {
+          removeTablePart(tr, mapped.pos, node);
+        } else {
+          tr.setNodeAttribute(mapped.pos, attribute, null);
+        }
+      }
+    };
+
+    return {
+      acceptTableChange:
+        (id) =>
+        ({ tr, state, dispatch }) => {
+          if (findParts(state.doc, id).length === 0) return false;
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          if (dispatch) {
+            resolve(tr, state.doc, id, "trackedDelete");
+          }
+
+          return true;
+        },
+      rejectTableChange:
+        (id) =>
+        ({ tr, state, dispatch }) => {
+          if (findParts(state.doc, id).length === 0) return false;
+
+          // Mark this transaction so TrackChangesMode doesn't intercept it
+          tr.setMeta("acceptReject", true);
+
+          if (dispatch) {
+            resolve(tr, state.doc, id, "trackedInsert");
+          }
+
+          return true;
+        },
+    };
+  },
+});
+
+export default TableChanges;
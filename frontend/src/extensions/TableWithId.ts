@@ -1,4 +1,19 @@
 import Table from '@tiptap/extension-table'
+import {
+  addColumnAfter,
+  addColumnBefore,
+  addRowAfter,
+  addRowBefore,
+  deleteColumn,
+  deleteRow,
+} from '@tiptap/pm/tables'
+import {
+  deleteTrackedColumns,
+  deleteTrackedRows,
+  getTableTrackingAuthor,
+  insertTrackedColumn,
+  insertTrackedRow,
+} from './TableChanges'
 
 export const TableWithId = Table.extend({
   addAttributes() {
@@ -14,6 +29,44 @@ export const TableWithId = Table.extend({
       },
     }
   },
+
+  // Row/column edits become revisions (see TableChanges) while track
+  // changes is enabled
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      addRowBefore: () => ({ state, tr, dispatch }) => {
+        const author = getTableTrackingAuthor(this.editor)
+        if (!author) return addRowBefore(state, dispatch)
+        return insertTrackedRow(state, tr, dispatch, 'before', author)
+      },
+      addRowAfter: () => ({ state, tr, dispatch }) => {
+        const author = getTableTrackingAuthor(this.editor)
+        if (!author) return addRowAfter(state, dispatch)
+        return insertTrackedRow(state, tr, dispatch, 'after', author)
+      },
+      deleteRow: () => ({ state, tr, dispatch }) => {
+        const author = getTableTrackingAuthor(this.editor)
+        if (!author) return deleteRow(state, dispatch)
+        return deleteTrackedRows(state, tr, dispatch, author)
+      },
+      addColumnBefore: () => ({ state, tr, dispatch }) => {
+        const author = getTableTrackingAuthor(this.editor)
+        if (!author) return addColumnBefore(state, dispatch)
+        return insertTrackedColumn(state, tr, dispatch, 'before', author)
+      },
+      addColumnAfter: () => ({ state, tr, dispatch }) => {
+        const author = getTableTrackingAuthor(this.editor)
+        if (!author) return addColumnAfter(state, dispatch)
+        return insertTrackedColumn(state, tr, dispatch, 'after', author)
+      },
+      deleteColumn: () => ({ state, tr, dispatch }) => {
+        const author = getTableTrackingAuthor(this.editor)
+        if (!author) return deleteColumn(state, dispatch)
+        return deleteTrackedColumns(state, tr, dispatch, author)
+      },
+    }
+  },
 })
 
 export default TableWithId
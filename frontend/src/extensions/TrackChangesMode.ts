@@ -1,15 +1,65 @@
 import { Extension } from "@tiptap/core";
 import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
-import { ReplaceStep } from "@tiptap/pm/transform";
+import type { Transaction } from "@tiptap/pm/state";
+import { Fragment, Slice } from "@tiptap/pm/model";
+import type { Mark, Node as PMNode } from "@tiptap/pm/model";
+import {
+  AddMarkStep,
+  AttrStep,
+  Mapping,
+  RemoveMarkStep,
+  ReplaceAroundStep,
+  ReplaceStep,
+} from "@tiptap/pm/transform";
+import { ySyncPluginKey } from "y-prosemirror";
+import {
+  isFormattingMark,
+  serializeFormattingMarks,
+  type FormatChangeMarkSpec,
+} from "./FormatChange";
+import {
+  isBlockTypeChange,
+  stripTrackedBlockAttrs,
+  type BlockChangeInfo,
+  type BlockTypeChangeInfo,
+  type TrackedBlockAttribute,
+} from "./BlockChanges";
+
+/**
+ * Decides, while tracking is locked, whether `user` may resolve the change
+ * with ID `changeId`, or unlock tracking when `changeId` is null
+ */
+export type TrackChangesPermission = (
+  changeId: string | null,
+  user: string,
+) => boolean;
+
+export interface TrackChangesLockOptions {
+  /**
+   * User permission is asked for (default: the current author). It's fixed
+   * when locking, so changing the author later doesn't change what's allowed.
+   */
+  user?: string;
+  /** Without it, nothing can be resolved and tracking can't be unlocked */
+  permission?: TrackChangesPermission;
+}
 
 export interface TrackChangesModeOptions {
   enabled: boolean;
   author: string;
+  /** Start with tracking locked on (see lockTrackChanges) */
+  locked: boolean;
 }
 
 export interface TrackChangesModeStorage {
   enabled: boolean;
   author: string;
+  /** Tracking can't be turned off and changes can't be resolved directly */
+  locked: boolean;
+  /** Who the lock was set for and what they may do */
+  lock: { user: string; permission: TrackChangesPermission | null } | null;
+  /** Deletion recorded for the last cut, so a matching paste becomes a move */
+  lastCut: { deletionId: string; text: string } | null;
 }
 
 declare module "@tiptap/core" {
@@ -19,19 +69,349 @@ declare module "@tiptap/core" {
       disableTrackChanges: () => ReturnType;
       toggleTrackChanges: () => ReturnType;
       setTrackChangesAuthor: (author: string) => ReturnType;
+      setTrackedChangeReason: (changeId: string, reason: string) => ReturnType;
+      /**
+       * Lock tracking on. Transactions that resolve tracked changes then
+       * only go through if the permission allows every one of them.
+       */
+      lockTrackChanges: (options?: TrackChangesLockOptions) => ReturnType;
+      /** Unlock tracking, if the lock's permission allows it */
+      unlockTrackChanges: () => ReturnType;
+      /**
+       * Accept the parts of insertions/deletions between `from` and `to`
+       * (only the given changes, when `changeIds` is passed)
+       */
+      acceptChangesInRange: (
+        from: number,
+        to: number,
+        changeIds?: string[],
+      ) => ReturnType;
+      /** Reject the parts of insertions/deletions between `from` and `to` */
+      rejectChangesInRange: (
+        from: number,
+        to: number,
+        changeIds?: string[],
+      ) => ReturnType;
     };
   }
 }
 
 export const trackChangesModePluginKey = new PluginKey("trackChangesMode");
 
+/** Marks the transactions track changes appends to record edits */
+const recordingKey = new PluginKey("trackChangesRecording");
+
+/** Mark names that record tracked changes */
+const TRACKED_MARKS = new Set([
+  "insertion",
+  "deletion",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+
+/**
+ * IDs of the tracked changes recorded between two positions: tracked marks
+ * and tracked* block/table attributes
+ */
+function getTrackedIds(doc: PMNode, from: number, to: number): Set<string> {
+  const ids = new Set<string>();
+  doc.nodesBetween(from, to, (node) => {
+    for (const mark of node.marks) {
+      if (TRACKED_MARKS.has(mark.type.name) && mark.attrs.id) {
+        ids.add(mark.attrs.id);
+      }
+    }
+    for (const [name, value] of Object.entries(node.attrs)) {
+      const id = (value as { id?: unknown } | null)?.id;
+      if (name.startsWith("tracked") && typeof id === "string") ids.add(id);
+    }
+  });
+  return ids;
+}
+
+/**
+ * IDs of the tracked changes a transaction resolves, wholly or in part:
+ * tracked marks it removes or replaces, tracked attributes it clears and
+ * tracked content it deletes. When track changes will record the
+ * transaction's deletions (putting deleted text back as deletions), only
+ * its mark and attribute changes count.
+ */
+function getResolvedChangeIds(
+  tr: Transaction,
+  deletionsTracked: boolean,
+): Set<string> {
+  const resolved = new Set<string>();
+
+  tr.steps.forEach((step, index) => {
+    const before = tr.docs[index];
+    const after = tr.docs[index + 1] ?? tr.doc;
+    let range: { from: number; to: number; newTo: number } | null = null;
+
+    if (step instanceof AddMarkStep || step instanceof RemoveMarkStep) {
+      range = { from: step.from, to: step.to, newTo: step.to };
+    } else if (step instanceof AttrStep) {
+      range = { from: step.pos, to: step.pos + 1, newTo: step.pos + 1 };
+    } else if (step instanceof ReplaceAroundStep) {
+      // A block type change is recorded; other markup changes aren't
+      const typeChanged =
+        before.nodeAt(step.from)?.type !== after.nodeAt(step.from)?.type;
+      if (!deletionsTracked || !typeChanged) {
+        range = {
+          from: step.from,
+          to: step.to,
+          newTo: step.getMap().map(step.to, 1),
+        };
+      }
+    } else if (step instanceof ReplaceStep && !deletionsTracked) {
+      range = {
+        from: step.from,
+        to: step.to,
+        newTo: step.getMap().map(step.to, 1),
+      };
+    }
+    if (!range) return;
+
+    const remaining = getTrackedIds(after, range.from, range.newTo);
+    getTrackedIds(before, range.from, range.to).forEach((id) => {
+      if (!remaining.has(id)) resolved.add(id);
+    });
+  });
+
+  return resolved;
+}
+
 /**
  * Generate a unique ID for a track change
  */
-function generateChangeId(type: "ins" | "del"): string {
+function generateChangeId(
+  type: "ins" | "del" | "fmt" | "blk" | "mrg" | "mov" | "mvf" | "mvt",
+): string {
   return `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Compare two serialized formatting mark sets, ignoring order
+ */
+function sameFormatting(
+  a: FormatChangeMarkSpec[],
+  b: FormatChangeMarkSpec[],
+): boolean {
+  const key = (marks: FormatChangeMarkSpec[]) =>
+    marks
+      .map((m) => JSON.stringify([m.type, m.attrs ?? {}]))
+      .sort()
+      .join("|");
+  return key(a) === key(b);
+}
+
+/**
+ * Whether a node type declares the given structural revision attribute
+ */
+function supportsBlockAttribute(
+  node: PMNode,
+  attribute: TrackedBlockAttribute,
+): boolean {
+  return !!node.type.spec.attrs && attribute in node.type.spec.attrs;
+}
+
+/**
+ * Prepare content removed across block boundaries for re-insertion:
+ * text gets a deletion mark (the author's own insertions are dropped) and
+ * every block whose paragraph break was removed gets `trackedMergeFrom`.
+ */
+function markSliceAsDeleted(
+  slice: Slice,
+  deletionMark: Mark,
+  mergeInfo: BlockChangeInfo,
+  author: string,
+): Slice {
+  let textblockIndex = 0;
+
+  const mapFragment = (fragment: Fragment): Fragment => {
+    const children: PMNode[] = [];
+    fragment.forEach((node) => {
+      if (node.isText) {
+        const insertionMark = node.marks.find(
+          (m) => m.type.name === "insertion",
+        );
+        if (insertionMark && insertionMark.attrs.author === author) {
+          // My own insertion - just remove it
+          return;
+        }
+        const alreadyDeleted = node.marks.some(
+          (m) => m.type.name === "deletion",
+        );
+        const marks = node.marks.filter((m) => m.type.name !== "insertion");
+        children.push(
+          alreadyDeleted
+            ? node.mark(marks)
+            : node.mark(deletionMark.addToSet(marks)),
+        );
+        return;
+      }
+
+      const content = mapFragment(node.content);
+      if (node.isTextblock) {
+        // The first block of an open slice keeps its paragraph break - it is
+        // the block the deletion started in
+        const isMerged = textblockIndex > 0 || slice.openStart === 0;
+        textblockIndex++;
+        if (isMerged && supportsBlockAttribute(node, "trackedMergeFrom")) {
+          children.push(
+            node.type.create(
+              { ...node.attrs, trackedMergeFrom: mergeInfo },
+              content,
+              node.marks,
+            ),
+          );
+          return;
+        }
+      }
+      children.push(node.copy(content));
+    });
+    return Fragment.fromArray(children);
+  };
+
+  return new Slice(mapFragment(slice.content), slice.openStart, slice.openEnd);
+}
+
+/**
+ * Find the range of the text carrying a mark with the given ID
+ */
+function findMarkRange(
+  doc: PMNode,
+  markName: string,
+  id: string,
+): { from: number; to: number } | null {
+  let range: { from: number; to: number } | null = null;
+  doc.descendants((node, pos) => {
+    if (
+      node.isText &&
+      node.marks.some((m) => m.type.name === markName && m.attrs.id === id)
+    ) {
+      range = {
+        from: range ? range.from : pos,
+        to: pos + node.nodeSize,
+      };
+    }
+  });
+  return range;
+}
+
+/**
+ * Turn a tracked deletion and insertion of the same text into the two
+ * halves of a move sharing one move ID
+ */
+function convertToMove(
+  tr: Transaction,
+  deletionId: string,
+  insertionId: string,
+  author: string,
+  date: string,
+): Transaction {
+  const { schema } = tr.doc.type;
+  const moveId = generateChangeId("mov");
+  const halves = [
+    {
+      from: "deletion",
+      to: schema.marks.moveFrom,
+      id: deletionId,
+      prefix: "mvf",
+    },
+    {
+      from: "insertion",
+      to: schema.marks.moveTo,
+      id: insertionId,
+      prefix: "mvt",
+    },
+  ] as const;
+
+  for (const half of halves) {
+    // Only the text carrying this change; other changes in between keep
+    // their own marks
+    const ranges: { from: number; to: number; mark: Mark }[] = [];
+    tr.doc.descendants((node, pos) => {
+      const mark = node.isText
+        ? node.marks.find(
+            (m) => m.type.name === half.from && m.attrs.id === half.id,
+          )
+        : undefined;
+      if (mark) ranges.push({ from: pos, to: pos + node.nodeSize, mark });
+    });
+    if (ranges.length === 0) continue;
+
+    const moveMark = half.to.create({
+      id: generateChangeId(half.prefix),
+      moveId,
+      author,
+      date,
+    });
+    for (const range of ranges) {
+      tr = tr.removeMark(range.from, range.to, range.mark);
+      tr = tr.addMark(range.from, range.to, moveMark);
+    }
+  }
+  return tr;
+}
+
+/**
+ * Resolve the parts of insertions and deletions that fall between `from`
+ * and `to`. Marks are split at the range boundaries: text outside the
+ * range keeps its change (and ID) for later review. Returns whether
+ * anything was found.
+ */
+function resolveChangesInRange(
+  tr: Transaction,
+  doc: PMNode,
+  from: number,
+  to: number,
+  action: "accept" | "reject",
+  changeIds: string[] | undefined,
+  dispatch: boolean,
+): boolean {
+  // Accepting removes deleted text and keeps inserted text; rejecting the
+  // reverse
+  const removedType = action === "accept" ? "deletion" : "insertion";
+  const keptType = action === "accept" ? "insertion" : "deletion";
+
+  const removals: Array<{ from: number; to: number }> = [];
+  const unmarks: Array<{ from: number; to: number; mark: Mark }> = [];
+
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isText) return;
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + node.nodeSize, to);
+    if (start >= end) return;
+
+    for (const mark of node.marks) {
+      if (changeIds && !changeIds.includes(mark.attrs.id)) continue;
+      if (mark.type.name === removedType) {
+        removals.push({ from: start, to: end });
+        break;
+      }
+      if (mark.type.name === keptType) {
+        unmarks.push({ from: start, to: end, mark });
+      }
+    }
+  });
+
+  if (removals.length === 0 && unmarks.length === 0) return false;
+
+  if (dispatch) {
+    // Mark this transaction so TrackChangesMode doesn't intercept it
+    tr.setMeta("acceptReject", true);
+    // Mark steps don't move positions; deletions go last, from the end
+    for (const { from: start, to: end, mark } of unmarks) {
+      tr.removeMark(start, end, mark);
+    }
+    for (const { from: start, to: end } of removals.reverse()) {
+      tr.delete(start, end);
+    }
+  }
+  return true;
+}
+
 /**
  * Get current ISO date string
  */
@@ -49,13 +429,19 @@ export const TrackChangesMode = Extension.create<
     return {
       enabled: false,
       author: "Unknown Author",
+      locked: false,
     };
   },
 
   addStorage() {
     return {
-      enabled: this.options.enabled,
+      enabled: this.options.enabled || this.options.locked,
       author: this.options.author,
+      locked: this.options.locked,
+      lock: this.options.locked
+        ? { user: this.options.author, permission: null }
+        : null,
+      lastCut: null,
     };
   },
 
@@ -74,6 +460,8 @@ export const TrackChangesMode = Extension.create<
       disableTrackChanges:
         () =>
         ({ editor }) => {
+          // Locked tracking stays on until unlocked
+          if (this.storage.locked) return false;
           this.storage.enabled = false;
           editor.view.dispatch(
             editor.state.tr.setMeta("trackChangesEnabled", false),
@@ -93,6 +481,91 @@ export const TrackChangesMode = Extension.create<
         this.storage.author = author;
         return true;
       },
+      setTrackedChangeReason:
+        (changeId, reason) =>
+        ({ tr, state, dispatch }) => {
+          let found = false;
+
+          // Updating a change's attributes is not itself a change
+          tr.setMeta("trackChangesProcessed", true);
+
+          state.doc.descendants((node, pos) => {
+            if (!node.isText) return;
+            const mark = node.marks.find(
+              (m) =>
+                (m.type.name === "insertion" || m.type.name === "deletion") &&
+                m.attrs.id === changeId,
+            );
+            if (mark) {
+              found = true;
+              if (dispatch) {
+                const to = pos + node.nodeSize;
+                tr.removeMark(pos, to, mark);
+                tr.addMark(
+                  pos,
+                  to,
+                  mark.type.create({ ...mark.attrs, reason }),
+                );
+              }
+            }
+          });
+
+          return found;
+        },
+      lockTrackChanges:
+        (options = {}) =>
+        ({ editor }) => {
+          // An existing lock's permission can't be swapped for another
+          if (this.storage.lock?.permission) return false;
+          this.storage.lock = {
+            user: options.user ?? this.storage.author,
+            permission: options.permission ?? null,
+          };
+          this.storage.locked = true;
+          this.storage.enabled = true;
+          editor.view.dispatch(
+            editor.state.tr
+              .setMeta("trackChangesEnabled", true)
+              .setMeta("trackChangesLocked", true),
+          );
+          return true;
+        },
+      unlockTrackChanges:
+        () =>
+        ({ editor }) => {
+          const { lock } = this.storage;
+          if (lock && !lock.permission?.(null, lock.user)) return false;
+          this.storage.locked = false;
+          this.storage.lock = null;
+          editor.view.dispatch(
+            editor.state.tr.setMeta("trackChangesLocked", false),
+          );
+          return true;
+        },
+      acceptChangesInRange:
+        (from, to, changeIds) =>
+        ({ tr, state, dispatch }) =>
+          resolveChangesInRange(
+            tr,
+            state.doc,
+            from,
+            to,
+            "accept",
+            changeIds,
+            !!dispatch,
+          ),
+      rejectChangesInRange:
+        (from, to, changeIds) =>
+        ({ tr, state, dispatch }) =>
+          resolveChangesInRange(
+            tr,
+            state.doc,
+            from,
+            to,
+            "reject",
+            changeIds,
+            !!dispatch,
+          ),
     };
   },
 
@@ -103,6 +576,33 @@ export const TrackChangesMode = Extension.create<
       new Plugin({
         key: trackChangesModePluginKey,
 
+        filterTransaction(tr) {
+          // While locked, a transaction that resolves tracked changes (by
+          // whatever means) only goes through if the lock's user may
+          // resolve every one of them. Undo/redo only takes back this
+          // editor's own changes, and collaborators' edits were checked
+          // by their own editor.
+          if (
+            !extension.storage.locked ||
+            !tr.docChanged ||
+            tr.getMeta(recordingKey) ||
+            tr.getMeta("history$") ||
+            tr.getMeta(ySyncPluginKey)?.isChangeOrigin
+          ) {
+            return true;
+          }
+          const deletionsTracked =
+            !tr.getMeta("acceptReject") && !tr.getMeta("trackChangesProcessed");
+          const resolved = getResolvedChangeIds(tr, deletionsTracked);
+          if (resolved.size === 0) return true;
+
+          const { lock } = extension.storage;
+          return (
+            !!lock?.permission &&
+            [...resolved].every((id) => lock.permission?.(id, lock.user))
+          );
+        },
+
         appendTransaction(transactions, oldState, newState) {
           // Only process if track changes is enabled
           if (!extension.storage.enabled) {
@@ -125,6 +625,16 @@ export const TrackChangesMode = Extension.create<
             return null;
           }
 
+          // Skip edits arriving from collaborators through Yjs - they were
+          // tracked (or accepted/rejected) on the client that made them
+          if (
+            transactions.some(
+              (tr) => tr.getMeta(ySyncPluginKey)?.isChangeOrigin,
+            )
+          ) {
+            return null;
+          }
+
           // Skip undo/redo transactions - these should restore original state, not create new changes
           if (
             transactions.some(
@@ -148,7 +658,7 @@ export const TrackChangesMode = Extension.create<
           }
 
           interface PendingChange {
-            type: "deletion" | "insertion" | "restore-deleted";
+            type: "deletion" | "insertion" | "restore-deleted" | "restore-slice";
             // For deletions: position in newState where to insert the deleted text
             // For insertions: position range in newState to mark
             // For restore-deleted: position where to re-insert already-deleted text
@@ -159,10 +669,24 @@ export const TrackChangesMode = Extension.create<
             deletedFragments?: DeletedFragment[];
             // For restore-deleted: the original marks to preserve (including deletion mark)
             originalMarks?: readonly import("@tiptap/pm/model").Mark[];
+            // For restore-slice: content removed across block boundaries,
+            // re-inserted so the paragraph breaks stay until accepted
+            slice?: Slice;
           }
 
           const pendingChanges: PendingChange[] = [];
 
+          // Ranges (in newState positions) whose formatting marks were
+          // added or removed, one entry per AddMarkStep/RemoveMarkStep
+          const formatRanges: Array<{ from: number; to: number }> = [];
+
+          // Structural revision attributes to set on blocks (newState positions)
+          const blockChanges: Array<{
+            pos: number;
+            attribute: TrackedBlockAttribute;
+            value: BlockChangeInfo | BlockTypeChangeInfo | null;
+          }> = [];
+
           // Process each transaction to collect changes
           for (const transaction of transactions) {
             if (!transaction.docChanged) continue;
@@ -171,7 +695,108 @@ export const TrackChangesMode = Extension.create<
             // to correctly identify where in oldState each step's positions refer to
             let stepIndex = 0;
             for (const step of transaction.steps) {
-              if (step instanceof ReplaceStep) {
+              if (
+                (step instanceof AddMarkStep ||
+                  step instanceof RemoveMarkStep) &&
+                isFormattingMark(step.mark)
+              ) {
+                // Map the step range forward to newState positions
+                let mappedFrom = step.from;
+                let mappedTo = step.to;
+                for (let i = stepIndex + 1; i < transaction.steps.length; i++) {
+                  const map = transaction.steps[i].getMap();
+                  mappedFrom = map.map(mappedFrom, 1);
+                  mappedTo = map.map(mappedTo, -1);
+                }
+                // ...and through the transactions after this one
+                for (const later of transactions.slice(
+                  transactions.indexOf(transaction) + 1,
+                )) {
+                  mappedFrom = later.mapping.map(mappedFrom, 1);
+                  mappedTo = later.mapping.map(mappedTo, -1);
+                }
+                if (mappedFrom < mappedTo) {
+                  formatRanges.push({ from: mappedFrom, to: mappedTo });
+                }
+              } else if (step instanceof ReplaceAroundStep) {
+                let oldPos = step.from;
+                for (let i = 0; i < stepIndex; i++) {
+                  oldPos = transaction.steps[i].getMap().invert().map(oldPos);
+                }
+                let mappedPos = step.from;
+                for (let i = stepIndex + 1; i < transaction.steps.length; i++) {
+                  mappedPos = transaction.steps[i].getMap().map(mappedPos);
+                }
+                const oldNode = oldState.doc.nodeAt(oldPos);
+                const newNode = newState.doc.nodeAt(mappedPos);
+
+                if (
+                  step.gapFrom === step.from + 1 &&
+                  step.gapTo === step.to - 1 &&
+                  oldNode &&
+                  newNode &&
+                  supportsBlockAttribute(newNode, "trackedTypeChange") &&
+                  isBlockTypeChange(oldNode, newNode)
+                ) {
+                  // Block type or heading level changed (setNodeMarkup)
+                  const existing = oldNode.attrs
+                    .trackedTypeChange as BlockTypeChangeInfo | null;
+                  let value: BlockTypeChangeInfo | null;
+                  if (existing) {
+                    // Keep the original "before" state; drop the record
+                    // if the block is back to it
+                    const isReverted =
+                      newNode.type.name === existing.previousType &&
+                      (newNode.attrs.level ?? null) ===
+                        (existing.previousAttrs.level ?? null);
+                    value = isReverted ? null : existing;
+                  } else {
+                    value = {
+                      id: generateChangeId("blk"),
+                      author,
+                      date,
+                      previousType: oldNode.type.name,
+                      previousAttrs: stripTrackedBlockAttrs(oldNode.attrs),
+                    };
+                  }
+                  blockChanges.push({
+                    pos: mappedPos,
+                    attribute: "trackedTypeChange",
+                    value,
+                  });
+
+                  // Carry over other revisions the old node type held
+                  for (const attribute of [
+                    "trackedInsertBlock",
+                    "trackedMergeFrom",
+                  ] as const) {
+                    if (
+                      oldNode.attrs[attribute] &&
+                      !newNode.attrs[attribute] &&
+                      supportsBlockAttribute(newNode, attribute)
+                    ) {
+                      blockChanges.push({
+                        pos: mappedPos,
+                        attribute,
+                        value: oldNode.attrs[attribute],
+                      });
+                    }
+                  }
+                } else if (
+                  step.gapFrom === step.from &&
+                  step.insert > 0 &&
+                  newNode &&
+                  !newNode.isTextblock &&
+                  supportsBlockAttribute(newNode, "trackedInsertBlock")
+                ) {
+                  // Content wrapped in a new block (e.g. a section)
+                  blockChanges.push({
+                    pos: mappedPos,
+                    attribute: "trackedInsertBlock",
+                    value: { id: generateChangeId("blk"), author, date },
+                  });
+                }
+              } else if (step instanceof ReplaceStep) {
                 const { from, to } = step as ReplaceStep;
                 const slice = (step as ReplaceStep).slice;
 
@@ -224,8 +849,11 @@ export const TrackChangesMode = Extension.create<
                             (m) => m.type.name === "insertion",
                           );
                           // Check if this text already has a deletion mark
+                          // (text moved away counts as deleted)
                           const hasDeletionMark = node.marks.some(
-                            (m) => m.type.name === "deletion",
+                            (m) =>
+                              m.type.name === "deletion" ||
+                              m.type.name === "moveFrom",
                           );
 
                           if (insertionMark) {
@@ -289,6 +917,67 @@ export const TrackChangesMode = Extension.create<
                   mappedFrom = map.map(mappedFrom);
                 }
 
+                // Deletions across block boundaries (joined paragraphs) are
+                // restored structurally instead of as flattened text
+                const $oldFrom = oldState.doc.resolve(oldFrom);
+                const $oldTo = oldState.doc.resolve(oldTo);
+                const spansBlocks =
+                  oldFrom < oldTo &&
+                  (!$oldFrom.sameParent($oldTo) ||
+                    !$oldFrom.parent.isTextblock);
+
+                if (spansBlocks) {
+                  deletedFragments.length = 0;
+                  alreadyDeletedFragments.length = 0;
+
+                  // Joining away a paragraph break I inserted myself just
+                  // undoes my split
+                  let undoesOwnSplit =
+                    oldState.doc.textBetween(oldFrom, oldTo) === "";
+                  oldState.doc.nodesBetween(oldFrom, oldTo, (node, pos) => {
+                    if (node.isTextblock && pos > oldFrom) {
+                      const inserted = node.attrs
+                        .trackedInsertBlock as BlockChangeInfo | null;
+                      if (!inserted || inserted.author !== author) {
+                        undoesOwnSplit = false;
+                      }
+                    }
+                  });
+
+                  if (!undoesOwnSplit) {
+                    pendingChanges.push({
+                      type: "restore-slice",
+                      from: mappedFrom,
+                      to: mappedFrom,
+                      text: "",
+                      slice: oldState.doc.slice(oldFrom, oldTo),
+                    });
+                  }
+                }
+
+                // New blocks opened by this step (Enter, pasted paragraphs)
+                if (slice.openStart > 0 || slice.content.firstChild?.isBlock) {
+                  const insertedEnd = mappedFrom + slice.size;
+                  newState.doc.nodesBetween(
+                    mappedFrom,
+                    Math.min(insertedEnd, newState.doc.content.size),
+                    (node, pos) => {
+                      if (
+                        pos > mappedFrom &&
+                        pos < insertedEnd &&
+                        supportsBlockAttribute(node, "trackedInsertBlock") &&
+                        !node.attrs.trackedInsertBlock
+                      ) {
+                        blockChanges.push({
+                          pos,
+                          attribute: "trackedInsertBlock",
+                          value: { id: generateChangeId("blk"), author, date },
+                        });
+                      }
+                    },
+                  );
+                }
+
                 // Only create a deletion if there are non-insertion fragments to delete
                 // (text that was inserted and then deleted should just disappear)
                 if (deletedFragments.length > 0) {
@@ -359,7 +1048,11 @@ export const TrackChangesMode = Extension.create<
             }
           }
 
-          if (pendingChanges.length === 0) {
+          if (
+            pendingChanges.length === 0 &&
+            formatRanges.length === 0 &&
+            blockChanges.length === 0
+          ) {
             return null;
           }
 
@@ -368,10 +1061,105 @@ export const TrackChangesMode = Extension.create<
 
           let tr = newState.tr;
 
+          // Record formatting changes first - adding marks doesn't shift
+          // positions, so the replacement changes below map through cleanly
+          const formatChangeType = newState.schema.marks.formatChange;
+          if (formatChangeType && formatRanges.length > 0) {
+            // Maps newState positions back to oldState positions
+            const toOld = new Mapping();
+            transactions.forEach((t) => toOld.appendMapping(t.mapping));
+            const toOldInverted = toOld.invert();
+
+            for (const range of formatRanges) {
+              const changeId = generateChangeId("fmt");
+
+              newState.doc.nodesBetween(range.from, range.to, (node, pos) => {
+                if (!node.isText) return;
+
+                // Formatting of pending insertions/deletions is part of
+                // that change, not a separate revision
+                if (
+                  node.marks.some(
+                    (m) =>
+                      m.type.name === "insertion" ||
+                      m.type.name === "deletion",
+                  )
+                ) {
+                  return;
+                }
+
+                const start = Math.max(pos, range.from);
+                const end = Math.min(pos + node.nodeSize, range.to);
+                if (start >= end) return;
+
+                const currentMarks = serializeFormattingMarks(node.marks);
+                const existing = node.marks.find(
+                  (m) => m.type.name === "formatChange",
+                );
+
+                if (existing) {
+                  // Keep the original "before" state of an earlier format
+                  // change; drop the record if the formatting is back to it
+                  const previousMarks = (existing.attrs.previousMarks ??
+                    []) as FormatChangeMarkSpec[];
+                  if (sameFormatting(previousMarks, currentMarks)) {
+                    tr = tr.removeMark(start, end, formatChangeType);
+                  }
+                  return;
+                }
+
+                // Compare each piece with the formatting it had before: the
+                // range may span old text formatted in different ways
+                const oldStart = toOldInverted.map(start, 1);
+                const oldEnd = toOldInverted.map(end, -1);
+                oldState.doc.nodesBetween(
+                  oldStart,
+                  oldEnd,
+                  (oldNode, oldPos) => {
+                    if (!oldNode.isText) return;
+
+                    const from = Math.max(
+                      start,
+                      toOld.map(Math.max(oldPos, oldStart), 1),
+                    );
+                    const to = Math.min(
+                      end,
+                      toOld.map(
+                        Math.min(oldPos + oldNode.nodeSize, oldEnd),
+                        -1,
+                      ),
+                    );
+                    if (from >= to) return;
+
+                    const previousMarks = serializeFormattingMarks(
+                      oldNode.marks,
+                    );
+                    if (sameFormatting(previousMarks, currentMarks)) return;
+
+                    tr = tr.addMark(
+                      from,
+                      to,
+                      formatChangeType.create({
+                        id: changeId,
+                        author,
+                        date,
+                        previousMarks,
+                      }),
+                    );
+                  },
+                );
+              });
+            }
+          }
+
           // Track the cursor position - we need to restore it after inserting deleted text
           const originalSelection = newState.selection;
           let cursorPos = originalSelection.from;
 
+          // Plain deletions/insertions created below, for move detection
+          const createdDeletions: Array<{ id: string; text: string }> = [];
+          const createdInsertions: Array<{ id: string; text: string }> = [];
+
           for (const change of pendingChanges) {
             if (change.type === "deletion") {
               const deletionMark = newState.schema.marks.deletion.create({
@@ -404,8 +1192,27 @@ export const TrackChangesMode = Extension.create<
                 tr = tr.insert(mappedPos, textNode);
               }
 
+              createdDeletions.push({
+                id: deletionMark.attrs.id,
+                text: change.text,
+              });
+
               // Don't let cursor move - it should stay to the LEFT of inserted deleted text
               // The insert pushes everything right, so we need to keep cursor at mappedPos
+            } else if (change.type === "restore-slice" && change.slice) {
+              // Put the removed blocks back, marked as deleted / pending merge
+              const mappedPos = tr.mapping.map(change.from);
+              const slice = markSliceAsDeleted(
+                change.slice,
+                newState.schema.marks.deletion.create({
+                  id: generateChangeId("del"),
+                  author: author,
+                  date: date,
+                }),
+                { id: generateChangeId("mrg"), author, date },
+                author,
+              );
+              tr = tr.replace(mappedPos, mappedPos, slice);
             } else if (change.type === "restore-deleted") {
               // Re-insert already-deleted text with its original marks (including deletion mark)
               const mappedPos = tr.mapping.map(change.from);
@@ -431,19 +1238,101 @@ export const TrackChangesMode = Extension.create<
               if (deletionMarkType) {
                 tr = tr.removeMark(mappedFrom, mappedTo, deletionMarkType);
               }
+              const moveFromMarkType = newState.schema.marks.moveFrom;
+              if (moveFromMarkType) {
+                tr = tr.removeMark(mappedFrom, mappedTo, moveFromMarkType);
+              }
 
               // Then add the insertion mark
               tr = tr.addMark(mappedFrom, mappedTo, insertionMark);
+              createdInsertions.push({
+                id: insertionMark.attrs.id,
+                text: change.text,
+              });
+            }
+          }
+
+          // Relocated text (drag and drop, cut then paste) becomes a move
+          if (newState.schema.marks.moveFrom && newState.schema.marks.moveTo) {
+            const uiEvent = transactions
+              .map((t) => t.getMeta("uiEvent"))
+              .find(Boolean);
+
+            // Same transaction: text deleted in one place and inserted
+            // verbatim elsewhere. An insertion touching the deletion is a
+            // replacement, not a move.
+            for (const insertion of createdInsertions) {
+              if (insertion.text.trim().length < 2) continue;
+              const index = createdDeletions.findIndex(
+                (d) => d.text === insertion.text,
+              );
+              if (index === -1) continue;
+              const deletion = createdDeletions[index];
+              const deletedRange = findMarkRange(
+                tr.doc,
+                "deletion",
+                deletion.id,
+              );
+              const insertedRange = findMarkRange(
+                tr.doc,
+                "insertion",
+                insertion.id,
+              );
+              if (
+                !deletedRange ||
+                !insertedRange ||
+                (insertedRange.to >= deletedRange.from &&
+                  insertedRange.from <= deletedRange.to)
+              ) {
+                continue;
+              }
+              tr = convertToMove(tr, deletion.id, insertion.id, author, date);
+              createdDeletions.splice(index, 1);
+            }
+
+            // Clipboard: a paste of exactly the text cut earlier
+            if (uiEvent === "cut" && createdDeletions.length === 1) {
+              extension.storage.lastCut = {
+                deletionId: createdDeletions[0].id,
+                text: createdDeletions[0].text,
+              };
+            } else if (uiEvent === "paste" && extension.storage.lastCut) {
+              const { deletionId, text } = extension.storage.lastCut;
+              const insertion = createdInsertions.find((i) => i.text === text);
+              if (
+                insertion &&
+                findMarkRange(tr.doc, "deletion", deletionId) &&
+                findMarkRange(tr.doc, "insertion", insertion.id)
+              ) {
+                tr = convertToMove(tr, deletionId, insertion.id, author, date);
+                extension.storage.lastCut = null;
+              }
+            }
+          }
+
+          // Record structural revisions on the affected blocks
+          for (const change of blockChanges) {
+            const pos = tr.mapping.map(change.pos);
+            const node = tr.doc.nodeAt(pos);
+            if (node && supportsBlockAttribute(node, change.attribute)) {
+              tr = tr.setNodeAttribute(pos, change.attribute, change.value);
             }
           }
 
           // Restore cursor to where it was before we inserted deleted text
-          // Use assoc=-1 to keep cursor to the left of any inserted content
-          const mappedCursor = tr.mapping.map(cursorPos, -1);
-          const $pos = tr.doc.resolve(mappedCursor);
-          tr = tr.setSelection(TextSelection.create(tr.doc, $pos.pos));
+          // Use assoc=-1 to keep cursor to the left of any inserted content.
+          // Pure formatting changes keep the selection as-is, and so does a
+          // selected range, which only an edit elsewhere leaves in place.
+          if (pendingChanges.length > 0 && !originalSelection.empty) {
+            tr = tr.setSelection(originalSelection.map(tr.doc, tr.mapping));
+          } else if (pendingChanges.length > 0) {
+            const mappedCursor = tr.mapping.map(cursorPos, -1);
+            const $pos = tr.doc.resolve(mappedCursor);
+            tr = tr.setSelection(TextSelection.create(tr.doc, $pos.pos));
+          }
 
           tr.setMeta("trackChangesProcessed", true);
+          tr.setMeta(recordingKey, true);
           return tr;
         },
       }),
@@ -454,6 +1343,13 @@ export const TrackChangesMode = Extension.create<
           let tooltip: HTMLDivElement | null = null;
           let hideTimeout: ReturnType<typeof setTimeout> | null = null;
 
+          // Cursor colour of a connected collaborator with this name
+          const getCollaboratorColor = (author: string): string | null => {
+            const users: Array<{ name?: string; color?: string }> =
+              extension.editor.storage.collaborationCursor?.users ?? [];
+            return users.find((user) => user.name === author)?.color ?? null;
+          };
+
           const showTooltip = (author: string, x: number, y: number) => {
             if (!tooltip) {
               tooltip = document.createElement("div");
@@ -461,6 +1357,12 @@ export const TrackChangesMode = Extension.create<
               document.body.appendChild(tooltip);
             }
             tooltip.textContent = author;
+            const color = getCollaboratorColor(author);
+            if (color) {
+              tooltip.style.setProperty("--collaborator-color", color);
+            } else {
+              tooltip.style.removeProperty("--collaborator-color");
+            }
             tooltip.style.left = `${x + 15}px`;
             tooltip.style.top = `${y - 45}px`;
           };
@@ -475,7 +1377,7 @@ export const TrackChangesMode = Extension.create<
           const handleMouseOver = (event: MouseEvent) => {
             const target = event.target as HTMLElement;
             const trackChange = target.closest(
-              ".insertion, .deletion",
+              ".insertion, .deletion, .format-change, .move-from, .move-to, .tracked-block, .tracked-table-change",
             ) as HTMLElement;
 
             if (trackChange) {
@@ -492,7 +1394,9 @@ export const TrackChangesMode = Extension.create<
 
           const handleMouseOut = (event: MouseEvent) => {
             const target = event.target as HTMLElement;
-            const trackChange = target.closest(".insertion, .deletion");
+            const trackChange = target.closest(
+              ".insertion, .deletion, .format-change, .move-from, .move-to, .tracked-block, .tracked-table-change",
+            );
 
             if (trackChange) {
               hideTimeout = setTimeout(hideTooltip, 100);
@@ -12,19 +12,64 @@ import { EditorContent } from "@tiptap/react";
 import { useDocumentEditor } from "./hooks/useDocumentEditor";
 import { useTrackChanges } from "./hooks/useTrackChanges";
 import { useComments } from "./hooks/useComments";
+import { useChangeComments } from "./hooks/useChangeComments";
 import { createExportPayload } from "./utils/createExportPayload";
+import { getDocumentView } from "./utils/documentView";
 import { FindReplaceBar } from "../components/FindReplaceBar";
 
 import type {
   DocumentEditorProps,
   EditorHandle,
+  GetContentOptions,
   TipTapDocument,
   TrackedChange,
+  TrackedChangeGroup,
+  TrackedChangeType,
   ExportOptions,
   ToolbarItem,
   BuiltInToolbarItem,
 } from "./types";
 
+/** Change types recorded as marks on text; the others live on nodes */
+const MARK_CHANGE_TYPES = new Set<TrackedChangeType>([
+  "insertion",
+  "deletion",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+
+/** Data attributes holding node-level (block and table) revision records */
+const TRACKED_NODE_DATA_ATTRIBUTES = [
+  "data-tracked-insert-block",
+  "data-tracked-merge-from",
+  "data-tracked-type-change",
+  "data-tracked-insert",
+  "data-tracked-delete",
+];
+
+/**
+ * CSS selector for the element(s) rendering a tracked change
+ */
+function getChangeSelector(change: TrackedChange): string {
+  switch (change.type) {
+    case "insertion":
+      return `ins[data-insertion-id="${change.id}"]`;
+    case "deletion":
+      return `del[data-deletion-id="${change.id}"]`;
+    case "formatChange":
+      return `span[data-format-change-id="${change.id}"]`;
+    case "moveFrom":
+      return `del[data-move-from-id="${change.id}"]`;
+    case "moveTo":
+      return `ins[data-move-to-id="${change.id}"]`;
+    default:
+      return TRACKED_NODE_DATA_ATTRIBUTES.map(
+        (attr) => `[${attr}*="${change.id}"]`,
+      ).join(", ");
+  }
+}
+
 /**
  * A flexible, unstyled document editor component with track changes and comments support.
  *
@@ -77,7 +122,9 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       readOnly = false,
       placeholder,
       trackChanges,
+      viewMode = "markup",
       comments,
+      changeComments,
       className,
       classNames = {},
       style,
@@ -117,6 +164,19 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       rejectChange,
       acceptAll: acceptAllChanges,
       rejectAll: rejectAllChanges,
+      acceptFiltered: acceptFilteredChanges,
+      rejectFiltered: rejectFilteredChanges,
+      acceptChangesInRange,
+      rejectChangesInRange,
+      groups,
+      acceptGroup,
+      rejectGroup,
+      getGroupAt,
+      filter: changeFilter,
+      setFilter: setChangeFilter,
+      filteredChanges,
+      locked: trackChangesLocked,
+      getChangeStats,
     } = useTrackChanges(editor, {
       enabled: trackChanges?.enabled,
       author: trackChanges?.author,
@@ -124,6 +184,11 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       onAuthorChange: trackChanges?.onAuthorChange,
       onAccept: trackChanges?.onAccept,
       onReject: trackChanges?.onReject,
+      filter: trackChanges?.filter,
+      hideFilteredChanges: trackChanges?.hideFilteredChanges,
+      lock: trackChanges?.lock,
+      canResolveChange: trackChanges?.canResolveChange,
+      onResolveDenied: trackChanges?.onResolveDenied,
     });
 
     // Comments functionality - initialize hook for side effects
@@ -132,7 +197,26 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       onAdd: comments?.onAdd,
       onReply: comments?.onReply,
       onResolve: comments?.onResolve,
+      onReopen: comments?.onReopen,
+      onEdit: comments?.onEdit,
+      onReact: comments?.onReact,
+      onMention: comments?.onMention,
       onDelete: comments?.onDelete,
+      onOrphaned: comments?.onOrphaned,
+      author: comments?.author,
+      users: comments?.users,
+    });
+
+    // Discussion threads on tracked changes
+    const {
+      getCommentsForChange: getChangeComments,
+      addComment: addChangeComment,
+    } = useChangeComments({
+      data: changeComments?.data,
+      onAdd: changeComments?.onAdd,
+      onReply: changeComments?.onReply,
+      onResolve: changeComments?.onResolve,
+      onDelete: changeComments?.onDelete,
     });
 
     // Note: Controlled content changes are handled by useDocumentEditor's
@@ -159,17 +243,32 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       }
     }, [trackChanges?.author, setTrackChangesAuthor]);
 
+    // Sync view mode with editor
+    useEffect(() => {
+      if (!editor?.storage.changeView) return;
+      editor.commands.setChangeViewMode(viewMode);
+    }, [editor, viewMode]);
+
     // Create the imperative handle
-    const getContent = useCallback(():
-      | TipTapDocument
-      | Record<string, unknown> => {
-      return editor?.getJSON() ?? { type: "doc", content: [] };
-    }, [editor]);
+    const getContent = useCallback(
+      (
+        options?: GetContentOptions,
+      ): TipTapDocument | Record<string, unknown> => {
+        const json = editor?.getJSON() ?? { type: "doc", content: [] };
+        if (!options?.view) return json;
+        return getDocumentView(json as TipTapDocument, options.view);
+      },
+      [editor],
+    );
 
     const getChanges = useCallback((): TrackedChange[] => {
       return changes;
     }, [changes]);
 
+    const getChangeGroups = useCallback((): TrackedChangeGroup[] => {
+      return groups;
+    }, [groups]);
+
     const handleAcceptChange = useCallback(
       (changeId: string) => {
         acceptChange(changeId);
@@ -201,6 +300,17 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
         rejectChange: handleRejectChange,
         acceptAllChanges,
         rejectAllChanges,
+        acceptFilteredChanges,
+        rejectFilteredChanges,
+        acceptChangesInRange,
+        rejectChangesInRange,
+        setChangeFilter,
+        getChangeGroups,
+        getChangeStats,
+        acceptGroup,
+        rejectGroup,
+        getChangeComments,
+        addChangeComment,
         setTrackChangesEnabled,
         setTrackChangesAuthor,
         getEditor: () => editor,
@@ -216,6 +326,17 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
         handleRejectChange,
         acceptAllChanges,
         rejectAllChanges,
+        acceptFilteredChanges,
+        rejectFilteredChanges,
+        acceptChangesInRange,
+        rejectChangesInRange,
+        setChangeFilter,
+        getChangeGroups,
+        getChangeStats,
+        acceptGroup,
+        rejectGroup,
+        getChangeComments,
+        addChangeComment,
         setTrackChangesEnabled,
         setTrackChangesAuthor,
         editor,
@@ -243,19 +364,19 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       hasChangesInSelection: boolean;
     } | null>(null);
 
-    // Reset index when changes array changes significantly
+    // Reset index when the (filtered) changes array changes significantly
     useEffect(() => {
-      if (changes.length === 0) {
+      if (filteredChanges.length === 0) {
         setCurrentChangeIndex(-1);
-      } else if (currentChangeIndex >= changes.length) {
-        setCurrentChangeIndex(changes.length - 1);
+      } else if (currentChangeIndex >= filteredChanges.length) {
+        setCurrentChangeIndex(filteredChanges.length - 1);
       }
-    }, [changes.length, currentChangeIndex]);
+    }, [filteredChanges.length, currentChangeIndex]);
 
     const goToChange = useCallback(
       (index: number) => {
-        if (!editor || changes.length === 0) return;
-        const change = changes[index];
+        if (!editor || filteredChanges.length === 0) return;
+        const change = filteredChanges[index];
         if (change) {
           setCurrentChangeIndex(index);
           editor.commands.setTextSelection(change.from);
@@ -282,40 +403,59 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
           }, 0);
         }
       },
-      [editor, changes],
+      [editor, filteredChanges],
     );
 
     const goToPrevChange = useCallback(() => {
-      if (changes.length === 0) return;
+      if (filteredChanges.length === 0) return;
       const newIndex =
-        currentChangeIndex <= 0 ? changes.length - 1 : currentChangeIndex - 1;
+        currentChangeIndex <= 0
+          ? filteredChanges.length - 1
+          : currentChangeIndex - 1;
       goToChange(newIndex);
-    }, [currentChangeIndex, changes.length, goToChange]);
+    }, [currentChangeIndex, filteredChanges.length, goToChange]);
 
     const goToNextChange = useCallback(() => {
-      if (changes.length === 0) return;
+      if (filteredChanges.length === 0) return;
       const newIndex =
         currentChangeIndex < 0
           ? 0
-          : currentChangeIndex >= changes.length - 1
+          : currentChangeIndex >= filteredChanges.length - 1
             ? 0
             : currentChangeIndex + 1;
       goToChange(newIndex);
-    }, [currentChangeIndex, changes.length, goToChange]);
+    }, [currentChangeIndex, filteredChanges.length, goToChange]);
+
+    // The group under the cursor, falling back to the group of the change
+    // selected via prev/next navigation
+    const getCurrentGroup = useCallback(() => {
+      if (editor) {
+        const group = getGroupAt(editor.state.selection.from);
+        if (group) return group;
+      }
+      if (
+        currentChangeIndex >= 0 &&
+        currentChangeIndex < filteredChanges.length
+      ) {
+        const change = filteredChanges[currentChangeIndex];
+        return groups.find((g) => g.changeIds.includes(change.id));
+      }
+      return undefined;
+    }, [editor, getGroupAt, currentChangeIndex, filteredChanges, groups]);
 
     const acceptCurrentChange = useCallback(() => {
-      if (currentChangeIndex >= 0 && currentChangeIndex < changes.length) {
-        const change = changes[currentChangeIndex];
-        acceptChange(change.id);
+      const group = getCurrentGroup();
+      if (group) {
+        acceptGroup(group.id);
       }
-    }, [currentChangeIndex, changes, acceptChange]);
+    }, [getCurrentGroup, acceptGroup]);
 
     const rejectCurrentChange = useCallback(() => {
-      if (currentChangeIndex >= 0 && currentChangeIndex < changes.length) {
-        const change = changes[currentChangeIndex];
-        rejectChange(change.id);
+      const group = getCurrentGroup();
+      if (group) {
+        rejectGroup(group.id);
       }
-    }, [currentChangeIndex, changes, rejectChange]);
+    }, [getCurrentGroup, rejectGroup]);
 
     // Get changes within the current text selection (for context menu)
     const getChangesInSelection = useCallback((): TrackedChange[] => {
@@ -330,10 +470,7 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       doc.nodesBetween(from, to, (node, pos) => {
         if (node.isText && node.marks) {
           node.marks.forEach((mark) => {
-            if (
-              mark.type.name === "insertion" ||
-              mark.type.name === "deletion"
-            ) {
+            if (MARK_CHANGE_TYPES.has(mark.type.name as TrackedChangeType)) {
               const markFrom = pos;
               const markTo = pos + node.nodeSize;
               if (markFrom < to && markTo > from) {
@@ -343,7 +480,7 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
                 if (!existing) {
                   changesInSelection.push({
                     id: mark.attrs.id,
-                    type: mark.type.name as "insertion" | "deletion",
+                    type: mark.type.name as TrackedChangeType,
                     author: mark.attrs.author,
                     date: mark.attrs.date,
                     text: node.text || "",
@@ -357,32 +494,32 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
         }
       });
 
+      // Structural changes on blocks and tables overlapping the selection
+      changes.forEach((change) => {
+        if (
+          !MARK_CHANGE_TYPES.has(change.type) &&
+          change.from < to &&
+          change.to > from
+        ) {
+          changesInSelection.push(change);
+        }
+      });
+
       return changesInSelection;
-    }, [editor]);
+    }, [editor, changes]);
 
-    // Accept all changes in the current selection
+    // Accept the changes in the current selection (insertions and
+    // deletions only up to the selection boundaries)
     const acceptChangesInSelection = useCallback(() => {
-      const changesInSel = getChangesInSelection();
-      // Process from end to start to preserve positions
-      [...changesInSel]
-        .sort((a, b) => b.from - a.from)
-        .forEach((change) => {
-          acceptChange(change.id);
-        });
+      acceptChangesInRange();
       setContextMenu(null);
-    }, [getChangesInSelection, acceptChange]);
+    }, [acceptChangesInRange]);
 
-    // Reject all changes in the current selection
+    // Reject the changes in the current selection
     const rejectChangesInSelection = useCallback(() => {
-      const changesInSel = getChangesInSelection();
-      // Process from end to start to preserve positions
-      [...changesInSel]
-        .sort((a, b) => b.from - a.from)
-        .forEach((change) => {
-          rejectChange(change.id);
-        });
+      rejectChangesInRange();
       setContextMenu(null);
-    }, [getChangesInSelection, rejectChange]);
+    }, [rejectChangesInRange]);
 
     // Handle context menu (right-click)
     const handleContextMenu = useCallback(
@@ -429,21 +566,21 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
       });
 
       // Add highlight to current change
-      if (currentChangeIndex >= 0 && currentChangeIndex < changes.length) {
-        const change = changes[currentChangeIndex];
+      if (
+        currentChangeIndex >= 0 &&
+        currentChangeIndex < filteredChanges.length
+      ) {
+        const change = filteredChanges[currentChangeIndex];
 
         // Find the element by its data attribute
-        const selector =
-          change.type === "insertion"
-            ? `ins[data-insertion-id="${change.id}"]`
-            : `del[data-deletion-id="${change.id}"]`;
+        const selector = getChangeSelector(change);
 
         const element = editorDom.querySelector(selector);
         if (element) {
           element.classList.add("selected-change");
         }
       }
-    }, [editor, currentChangeIndex, changes]);
+    }, [editor, currentChangeIndex, filteredChanges]);
 
     // Early return after all hooks have been called
     if (!editor) {
@@ -561,6 +698,8 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
             </button>
           );
         case "trackChangesToggle":
+          // Locked tracking can't be switched off
+          if (trackChangesLocked) return null;
           return (
             <button
               key="trackChangesToggle"
@@ -594,7 +733,7 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
               onClick={goToPrevChange}
               className="toolbar-btn"
               title="Previous Change"
-              disabled={changes.length === 0}
+              disabled={filteredChanges.length === 0}
             >
               <svg
                 width="16"
@@ -618,7 +757,7 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
               onClick={goToNextChange}
               className="toolbar-btn"
               title="Next Change"
-              disabled={changes.length === 0}
+              disabled={filteredChanges.length === 0}
             >
               <svg
                 width="16"
@@ -688,10 +827,14 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
             <button
               key="acceptAll"
               type="button"
-              onClick={acceptAllChanges}
+              onClick={() =>
+                changeFilter
+                  ? acceptFilteredChanges(changeFilter)
+                  : acceptAllChanges()
+              }
               className="toolbar-btn toolbar-btn-accept"
               title="Accept All Changes"
-              disabled={changes.length === 0}
+              disabled={filteredChanges.length === 0}
             >
               <svg
                 width="16"
@@ -713,10 +856,14 @@ export const DocumentEditor = forwardRef<EditorHandle, DocumentEditorProps>(
             <button
               key="rejectAll"
               type="button"
-              onClick={rejectAllChanges}
+              onClick={() =>
+                changeFilter
+                  ? rejectFilteredChanges(changeFilter)
+                  : rejectAllChanges()
+              }
               className="toolbar-btn toolbar-btn-reject"
               title="Reject All Changes"
-              disabled={changes.length === 0}
+              disabled={filteredChanges.length === 0}
             >
               <svg
                 width="16"
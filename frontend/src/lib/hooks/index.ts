@@ -10,6 +10,18 @@ export type {
 export { useComments } from "./useComments";
 export type { UseCommentsOptions, UseCommentsReturn } from "./useComments";
 
+export { useCollaborativeComments } from "./useCollaborativeComments";
+export type {
+  UseCollaborativeCommentsOptions,
+  UseCollaborativeCommentsReturn,
+} from "./useCollaborativeComments";
+
+export { useChangeComments } from "./useChangeComments";
+export type {
+  UseChangeCommentsOptions,
+  UseChangeCommentsReturn,
+} from "./useChangeComments";
+
 export {
   useCollaboration,
   generateUserColor,
@@ -28,3 +40,10 @@ export {
   AUTHOR_COLORS,
 } from "../utils/authorColors";
 export type { AuthorColor } from "../utils/authorColors";
+
+export { useVersionHistory } from "./useVersionHistory";
+export type {
+  UseVersionHistoryOptions,
+  UseVersionHistoryReturn,
+  RestoreVersionOptions,
+} from "./useVersionHistory";
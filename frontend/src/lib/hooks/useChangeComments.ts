@@ -0,0 +1,112 @@
+import { useCallback } from "react";
+import type { ChangeCommentData } from "../types";
+
+export interface UseChangeCommentsOptions {
+  /** Comments on tracked changes */
+  data?: ChangeCommentData[];
+  /** Called when user comments on a change */
+  onAdd?: (changeId: string, text: string) => void;
+  /** Called when user replies to a change comment */
+  onReply?: (commentId: string, text: string) => void;
+  /** Called when user resolves a change comment */
+  onResolve?: (commentId: string) => void;
+  /** Called when user deletes a change comment */
+  onDelete?: (commentId: string) => void;
+}
+
+/**
+ * Hook for discussion threads attached to tracked changes.
+ *
+ * Unlike regular comments these are keyed by change ID rather than anchored
+ * with a mark, so they follow the change wherever it is in the document.
+ *
+ * @example
+ * ```tsx
+ * const { getCommentsForChange, addComment } = useChangeComments({
+ *   data: changeComments,
+ *   onAdd: (changeId, text) => saveChangeComment(changeId, text),
+ * });
+ * ```
+ */
+export function useChangeComments(options: UseChangeCommentsOptions = {}) {
+  const { data = [], onAdd, onReply, onResolve, onDelete } = options;
+
+  /**
+   * Get the comments attached to a tracked change
+   */
+  const getCommentsForChange = useCallback(
+    (changeId: string): ChangeCommentData[] => {
+      return data.filter((c) => c.changeId === changeId);
+    },
+    [data],
+  );
+
+  /**
+   * Check whether a tracked change has a discussion thread
+   */
+  const hasComments = useCallback(
+    (changeId: string): boolean => {
+      return data.some((c) => c.changeId === changeId);
+    },
+    [data],
+  );
+
+  /**
+   * Comment on a tracked change
+   */
+  const addComment = useCallback(
+    (changeId: string, text: string) => {
+      onAdd?.(changeId, text);
+    },
+    [onAdd],
+  );
+
+  /**
+   * Reply to a change comment
+   */
+  const replyToComment = useCallback(
+    (commentId: string, text: string) => {
+      onReply?.(commentId, text);
+    },
+    [onReply],
+  );
+
+  /**
+   * Resolve a change comment
+   */
+  const resolveComment = useCallback(
+    (commentId: string) => {
+      onResolve?.(commentId);
+    },
+    [onResolve],
+  );
+
+  /**
+   * Delete a change comment
+   */
+  const deleteComment = useCallback(
+    (commentId: string) => {
+      onDelete?.(commentId);
+    },
+    [onDelete],
+  );
+
+  return {
+    /** Change comment data */
+    comments: data,
+    /** Get the comments attached to a change */
+    getCommentsForChange,
+    /** Check whether a change has comments */
+    hasComments,
+    /** Comment on a change */
+    addComment,
+    /** Reply to a change comment */
+    replyToComment,
+    /** Resolve a change comment */
+    resolveComment,
+    /** Delete a change comment */
+    deleteComment,
+  };
+}
+
+export type UseChangeCommentsReturn = ReturnType<typeof useChangeComments>;
@@ -5,6 +5,7 @@ import CollaborationCursor from "@tiptap/extension-collaboration-cursor";
 import * as Y from "yjs";
 import type { Extension } from "@tiptap/core";
 import { getAuthorPrimaryColor, AUTHOR_COLORS } from "../utils/authorColors";
+import { CollaborativeTrackChanges } from "../../extensions/CollaborativeTrackChanges";
 
 /**
  * User presence information for collaboration cursors
@@ -239,6 +240,11 @@ export function useCollaboration(
           return cursor;
         },
       }),
+      // Share the track changes on/off state; author defaults to the user
+      CollaborativeTrackChanges.configure({
+        document: ydoc,
+        user,
+      }),
     ];
   }, [ydoc, user, provider]);
 
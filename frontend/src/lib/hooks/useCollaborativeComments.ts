@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import type { Node as PMNode } from "@tiptap/pm/model";
+import type { Transaction } from "@tiptap/pm/state";
+import { AddMarkStep } from "@tiptap/pm/transform";
+import * as Y from "yjs";
+import { useComments } from "./useComments";
+import { getMentionedUsers } from "../utils/mentions";
+import type {
+  CommentData,
+  CommentReaction,
+  CommentUser,
+  SelectionRange,
+  UserDirectory,
+} from "../types";
+
+export interface UseCollaborativeCommentsOptions {
+  /** Name of the shared map holding the comment threads */
+  field?: string;
+  /** Current user, recorded as comment author, resolver and on reactions */
+  author?: string;
+  /** People who can be @mentioned */
+  users?: UserDirectory;
+  /** Called with the people @mentioned in a new comment, reply or edit */
+  onMention?: (commentId: string, users: CommentUser[]) => void;
+  /** Called when comments lose their place in the document (text deleted) */
+  onOrphaned?: (commentIds: string[]) => void;
+}
+
+/** Shared fields of a comment or reply (replies and reactions are nested) */
+type SharedComment = Y.Map<unknown>;
+
+/**
+ * Key of one user's reaction with one emoji. Each reaction is its own
+ * entry, so people reacting at the same time never overwrite each other.
+ */
+function reactionKey(emoji: string, user: string): string {
+  return `${emoji}\u0000${user}`;
+}
+
+function generateReplyId(): string {
+  return `reply-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Shared map for a new comment or reply. Replies and reactions are nested
+ * shared types so that concurrent replies and reactions all survive.
+ */
+function createSharedComment(comment: CommentData): SharedComment {
+  const shared = new Y.Map<unknown>();
+  shared.set("id", comment.id);
+  shared.set("author", comment.author);
+  shared.set("date", comment.date);
+  shared.set("text", comment.text);
+  shared.set("mentions", comment.mentions ?? []);
+  if (comment.resolved) shared.set("resolved", true);
+  shared.set("replies", new Y.Array<SharedComment>());
+  shared.set("reactions", new Y.Map<boolean>());
+  return shared;
+}
+
+function readSharedComment(shared: SharedComment): CommentData {
+  const replies = shared.get("replies") as Y.Array<SharedComment> | undefined;
+  const reactions = shared.get("reactions") as Y.Map<boolean> | undefined;
+
+  // Reactions grouped by emoji, in the order they were first used
+  const reactedBy = new Map<string, string[]>();
+  reactions?.forEach((_value, key) => {
+    const [emoji, user] = key.split("\u0000");
+    reactedBy.set(emoji, [...(reactedBy.get(emoji) ?? []), user]);
+  });
+
+  return {
+    id: shared.get("id") as string,
+    author: shared.get("author") as string,
+    date: shared.get("date") as string,
+    text: shared.get("text") as string,
+    mentions: shared.get("mentions") as string[],
+    resolved: shared.get("resolved") as boolean | undefined,
+    resolvedBy: shared.get("resolvedBy") as string | undefined,
+    resolvedAt: shared.get("resolvedAt") as string | undefined,
+    editedAt: shared.get("editedAt") as string | undefined,
+    replies: replies?.map(readSharedComment) ?? [],
+    reactions: Array.from(reactedBy, ([emoji, users]): CommentReaction => ({
+      emoji,
+      users,
+    })),
+  };
+}
+
+/**
+ * Find a thread or reply in the shared map by ID, with the reply list it's
+ * in (null for a thread)
+ */
+function findSharedComment(
+  threads: Y.Map<SharedComment>,
+  commentId: string,
+): { shared: SharedComment; replies: Y.Array<SharedComment> | null } | null {
+  const thread = threads.get(commentId);
+  if (thread) return { shared: thread, replies: null };
+
+  for (const candidate of threads.values()) {
+    const replies = candidate.get("replies") as Y.Array<SharedComment>;
+    const reply = replies.toArray().find((r) => r.get("id") === commentId);
+    if (reply) return { shared: reply, replies };
+  }
+
+  return null;
+}
+
+/**
+ * Hook for comments shared between everyone editing a Y.Doc.
+ *
+ * Comment threads are stored in a Y.Map in the same document as the
+ * content, so collaborators see each other's comments, replies, edits,
+ * reactions and resolves as they happen. The highlights are Comment marks
+ * in the shared content and are added, resolved and removed along with
+ * their threads; comment marks already in the content (from an imported
+ * document) get a thread from the text, author and date they record.
+ * Returns the same API as useComments.
+ *
+ * @example
+ * ```tsx
+ * const { ydoc, extensions } = useCollaboration({ ... });
+ * const { editor } = useDocumentEditor({ extensions });
+ * const comments = useCollaborativeComments(ydoc, editor, {
+ *   author: user.name,
+ * });
+ *
+ * comments.addComment("Please double-check this figure");
+ * <CommentsPanel editor={editor} comments={comments.comments} ... />
+ * ```
+ */
+export function useCollaborativeComments(
+  ydoc: Y.Doc | null,
+  editor: Editor | null,
+  options: UseCollaborativeCommentsOptions = {},
+) {
+  const {
+    field = "comments",
+    author = "Unknown Author",
+    users,
+    onMention,
+    onOrphaned,
+  } = options;
+
+  const [data, setData] = useState<CommentData[]>([]);
+
+  // Follow the shared threads
+  useEffect(() => {
+    if (!ydoc) {
+      setData([]);
+      return;
+    }
+
+    const threads = ydoc.getMap<SharedComment>(field);
+    const update = () => {
+      setData(
+        Array.from(threads.values())
+          .map(readSharedComment)
+          .sort((a, b) => a.date.localeCompare(b.date)),
+      );
+    };
+
+    update();
+    threads.observeDeep(update);
+    return () => threads.unobserveDeep(update);
+  }, [ydoc, field]);
+
+  // Comments already in the content (e.g. from an imported document) get a
+  // shared thread from what their mark records. The whole document is
+  // checked once, then only what each change touches (which includes
+  // content arriving from collaborators).
+  useEffect(() => {
+    if (!editor || !ydoc) return;
+
+    const seedThreads = (doc: PMNode, from: number, to: number) => {
+      const threads = ydoc.getMap<SharedComment>(field);
+      const missing = new Map<string, CommentData>();
+
+      doc.nodesBetween(from, to, (node) => {
+        node.marks.forEach((mark) => {
+          const { commentId, text } = mark.attrs;
+          if (mark.type.name !== "comment" || !commentId || !text) return;
+          if (threads.has(commentId) || missing.has(commentId)) return;
+          missing.set(commentId, {
+            id: commentId,
+            author: mark.attrs.author ?? "Unknown Author",
+            date: mark.attrs.date ?? new Date().toISOString(),
+            text,
+            resolved: mark.attrs.resolved,
+          });
+        });
+      });
+
+      if (missing.size === 0) return;
+      ydoc.transact(() => {
+        missing.forEach((comment) => {
+          threads.set(comment.id, createSharedComment(comment));
+        });
+      });
+    };
+
+    const seedChanged = ({ transaction }: { transaction: Transaction }) => {
+      transaction.steps.forEach((step, i) => {
+        const rest = transaction.mapping.slice(i + 1);
+        // Marks added back (e.g. undoing a deleted comment) change no text
+        if (step instanceof AddMarkStep) {
+          seedThreads(transaction.doc, rest.map(step.from), rest.map(step.to));
+          return;
+        }
+        step.getMap().forEach((_oldFrom, _oldTo, from, to) => {
+          seedThreads(transaction.doc, rest.map(from), rest.map(to));
+        });
+      });
+    };
+
+    seedThreads(editor.state.doc, 0, editor.state.doc.content.size);
+    editor.on("update", seedChanged);
+    return () => {
+      editor.off("update", seedChanged);
+    };
+  }, [editor, ydoc, field]);
+
+  /**
+   * Change the shared threads in one Yjs transaction
+   */
+  const updateThreads = useCallback(
+    (change: (threads: Y.Map<SharedComment>) => void) => {
+      if (!ydoc) return;
+      ydoc.transact(() => change(ydoc.getMap<SharedComment>(field)));
+    },
+    [ydoc, field],
+  );
+
+  const getMentions = useCallback(
+    (text: string) =>
+      users ? getMentionedUsers(text, users).map((user) => user.id) : [],
+    [users],
+  );
+
+  const handleAdd = useCallback(
+    (_range: SelectionRange, text: string, commentId: string) => {
+      updateThreads((threads) => {
+        threads.set(
+          commentId,
+          createSharedComment({
+            id: commentId,
+            author,
+            date: new Date().toISOString(),
+            text,
+            mentions: getMentions(text),
+          }),
+        );
+      });
+    },
+    [updateThreads, author, getMentions],
+  );
+
+  const handleReply = useCallback(
+    (commentId: string, text: string) => {
+      updateThreads((threads) => {
+        const thread = threads.get(commentId);
+        if (!thread) return;
+        const replies = thread.get("replies") as Y.Array<SharedComment>;
+        replies.push([
+          createSharedComment({
+            id: generateReplyId(),
+            author,
+            date: new Date().toISOString(),
+            text,
+            mentions: getMentions(text),
+          }),
+        ]);
+      });
+    },
+    [updateThreads, author, getMentions],
+  );
+
+  const handleResolve = useCallback(
+    (commentId: string, resolvedBy: string) => {
+      updateThreads((threads) => {
+        const thread = threads.get(commentId);
+        if (!thread) return;
+        thread.set("resolved", true);
+        thread.set("resolvedBy", resolvedBy);
+        thread.set("resolvedAt", new Date().toISOString());
+      });
+    },
+    [updateThreads],
+  );
+
+  const handleReopen = useCallback(
+    (commentId: string) => {
+      updateThreads((threads) => {
+        const thread = threads.get(commentId);
+        if (!thread) return;
+        thread.set("resolved", false);
+        thread.delete("resolvedBy");
+        thread.delete("resolvedAt");
+      });
+    },
+    [updateThreads],
+  );
+
+  const handleEdit = useCallback(
+    (commentId: string, text: string) => {
+      updateThreads((threads) => {
+        const found = findSharedComment(threads, commentId);
+        if (!found) return;
+        found.shared.set("text", text);
+        found.shared.set("editedAt", new Date().toISOString());
+        found.shared.set("mentions", getMentions(text));
+      });
+    },
+    [updateThreads, getMentions],
+  );
+
+  const handleReact = useCallback(
+    (commentId: string, emoji: string, user: string) => {
+      updateThreads((threads) => {
+        const found = findSharedComment(threads, commentId);
+        if (!found) return;
+        const reactions = found.shared.get("reactions") as Y.Map<boolean>;
+        const key = reactionKey(emoji, user);
+        if (reactions.has(key)) {
+          reactions.delete(key);
+        } else {
+          reactions.set(key, true);
+        }
+      });
+    },
+    [updateThreads],
+  );
+
+  const handleDelete = useCallback(
+    (commentId: string) => {
+      updateThreads((threads) => {
+        const found = findSharedComment(threads, commentId);
+        if (!found) return;
+        if (found.replies) {
+          found.replies.delete(found.replies.toArray().indexOf(found.shared));
+        } else {
+          threads.delete(commentId);
+        }
+      });
+    },
+    [updateThreads],
+  );
+
+  return useComments(editor, {
+    data,
+    author,
+    users,
+    onMention,
+    onOrphaned,
+    onAdd: handleAdd,
+    onReply: handleReply,
+    onResolve: handleResolve,
+    onReopen: handleReopen,
+    onEdit: handleEdit,
+    onReact: handleReact,
+    onDelete: handleDelete,
+  });
+}
+
+export type UseCollaborativeCommentsReturn = ReturnType<
+  typeof useCollaborativeComments
+>;
@@ -1,23 +1,63 @@
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import type { Editor } from "@tiptap/react";
-import type { CommentData, SelectionRange } from "../types";
+import { getCommentPositions } from "../../extensions/CommentAnchor";
+import { getMentionedUsers } from "../utils/mentions";
+import type {
+  CommentData,
+  CommentUser,
+  SelectionRange,
+  UserDirectory,
+} from "../types";
 
 export interface UseCommentsOptions {
   /** Comment data array */
   data?: CommentData[];
   /** Called when user creates a comment */
-  onAdd?: (range: SelectionRange, text: string) => void;
+  onAdd?: (range: SelectionRange, text: string, commentId: string) => void;
   /** Called when user replies to a comment */
   onReply?: (commentId: string, text: string) => void;
   /** Called when user resolves a comment */
-  onResolve?: (commentId: string) => void;
+  onResolve?: (commentId: string, resolvedBy: string) => void;
+  /** Called when user reopens a resolved comment */
+  onReopen?: (commentId: string) => void;
+  /** Called when user edits a comment's text */
+  onEdit?: (commentId: string, text: string) => void;
+  /** Called when user adds or removes an emoji reaction */
+  onReact?: (commentId: string, emoji: string, user: string) => void;
+  /** Called with the people @mentioned in a new comment, reply or edit */
+  onMention?: (commentId: string, users: CommentUser[]) => void;
   /** Called when user deletes a comment */
   onDelete?: (commentId: string) => void;
+  /** Called when comments lose their place in the document (text deleted) */
+  onOrphaned?: (commentIds: string[]) => void;
+  /** Current user, recorded as resolver and on reactions */
+  author?: string;
+  /** People who can be @mentioned */
+  users?: UserDirectory;
+}
+
+/**
+ * Find a comment or reply by ID
+ */
+function findComment(
+  comments: CommentData[],
+  commentId: string,
+): CommentData | undefined {
+  for (const comment of comments) {
+    if (comment.id === commentId) return comment;
+    const reply = comment.replies && findComment(comment.replies, commentId);
+    if (reply) return reply;
+  }
+  return undefined;
 }
 
 /**
  * Hook for managing comments functionality.
  *
+ * The comment data stays with the caller: the hook reports resolves,
+ * reopens, edits and reactions through callbacks, and the caller updates
+ * `data` to match.
+ *
  * @example
  * ```tsx
  * const {
@@ -28,8 +68,11 @@ export interface UseCommentsOptions {
  *   getSelection,
  * } = useComments(editor, {
  *   data: comments,
+ *   author: "Jane Doe",
+ *   users: createUserDirectory(team),
  *   onAdd: (range, text) => createComment(range, text),
- *   onResolve: (id) => resolveComment(id),
+ *   onResolve: (id, resolvedBy) => markResolved(id, resolvedBy),
+ *   onMention: (id, users) => notify(users, id),
  * });
  * ```
  */
@@ -37,39 +80,91 @@ export function useComments(
   editor: Editor | null,
   options: UseCommentsOptions = {},
 ) {
-  const { data = [], onAdd, onReply, onResolve, onDelete } = options;
+  const {
+    data = [],
+    onAdd,
+    onReply,
+    onResolve,
+    onReopen,
+    onEdit,
+    onReact,
+    onMention,
+    onDelete,
+    onOrphaned,
+    author = "Unknown Author",
+    users,
+  } = options;
 
   /**
-   * Navigate to a comment's location in the document
+   * Tell onMention about the people mentioned in some text, leaving out
+   * those already mentioned before an edit
+   */
+  const notifyMentions = useCallback(
+    (commentId: string, text: string, alreadyMentioned: string[] = []) => {
+      if (!users || !onMention) return;
+      const mentioned = getMentionedUsers(text, users).filter(
+        (user) => !alreadyMentioned.includes(user.id),
+      );
+      if (mentioned.length > 0) onMention(commentId, mentioned);
+    },
+    [users, onMention],
+  );
+
+  /**
+   * Navigate to a comment's location in the document (its highlight, or
+   * its anchor if the text was deleted)
    */
   const goToComment = useCallback(
     (commentId: string) => {
       if (!editor) return false;
 
-      const doc = editor.state.doc;
-      let found = false;
-
-      doc.descendants((node, pos) => {
-        if (found) return false;
-        if (node.isText) {
-          node.marks.forEach((mark) => {
-            if (
-              mark.type.name === "comment" &&
-              mark.attrs.commentId === commentId
-            ) {
-              editor.commands.setTextSelection(pos);
-              editor.commands.scrollIntoView();
-              found = true;
-            }
-          });
-        }
-      });
+      const { marks, anchors } = getCommentPositions(editor.state.doc);
+      const pos = marks.get(commentId) ?? anchors.get(commentId);
+      if (pos === undefined) return false;
 
-      return found;
+      editor.commands.setTextSelection(pos);
+      editor.commands.scrollIntoView();
+      return true;
     },
     [editor],
   );
 
+  /**
+   * Comments that have lost their place in the document: their text was
+   * deleted and they have no anchor
+   */
+  const getOrphanedComments = useCallback((): CommentData[] => {
+    if (!editor) return [];
+
+    const { marks, anchors } = getCommentPositions(editor.state.doc);
+    return data.filter(
+      (comment) => !marks.has(comment.id) && !anchors.has(comment.id),
+    );
+  }, [editor, data]);
+
+  // Report comments that were in the document and no longer are
+  const placedComments = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    if (!editor || !onOrphaned) return;
+
+    const checkOrphans = () => {
+      const orphaned = new Set(getOrphanedComments().map((c) => c.id));
+      const lost = [...(placedComments.current ?? [])].filter((id) =>
+        orphaned.has(id),
+      );
+      placedComments.current = new Set(
+        data.map((c) => c.id).filter((id) => !orphaned.has(id)),
+      );
+      if (lost.length > 0) onOrphaned(lost);
+    };
+
+    checkOrphans();
+    editor.on("update", checkOrphans);
+    return () => {
+      editor.off("update", checkOrphans);
+    };
+  }, [editor, data, onOrphaned, getOrphanedComments]);
+
   /**
    * Get the current text selection range
    */
@@ -129,11 +224,12 @@ export function useComments(
       }
 
       // Call the callback
-      onAdd?.(range, text);
+      onAdd?.(range, text, commentId);
+      notifyMentions(commentId, text);
 
       return commentId;
     },
-    [editor, getSelection, addCommentMark, onAdd],
+    [editor, getSelection, addCommentMark, onAdd, notifyMentions],
   );
 
   /**
@@ -159,16 +255,30 @@ export function useComments(
   );
 
   /**
-   * Resolve a comment - calls onResolve (mark removal is optional)
+   * Resolve a comment - removes its highlight, or with removeMark false
+   * keeps it (marked resolved) so it can be reopened
    */
   const resolveComment = useCallback(
     (commentId: string, removeMark = true) => {
       if (removeMark) {
         removeCommentMark(commentId);
+      } else {
+        editor?.commands.setCommentResolved(commentId, true);
       }
-      onResolve?.(commentId);
+      onResolve?.(commentId, author);
     },
-    [removeCommentMark, onResolve],
+    [editor, removeCommentMark, onResolve, author],
+  );
+
+  /**
+   * Reopen a resolved comment
+   */
+  const reopenComment = useCallback(
+    (commentId: string) => {
+      editor?.commands.setCommentResolved(commentId, false);
+      onReopen?.(commentId);
+    },
+    [editor, onReopen],
   );
 
   /**
@@ -177,27 +287,90 @@ export function useComments(
   const replyToComment = useCallback(
     (commentId: string, text: string) => {
       onReply?.(commentId, text);
+      notifyMentions(commentId, text);
     },
-    [onReply],
+    [onReply, notifyMentions],
   );
 
   /**
-   * Get the comment ID at the current cursor position
+   * Change the text of a comment or reply
    */
-  const getCommentAtCursor = useCallback((): string | null => {
-    if (!editor) return null;
+  const editComment = useCallback(
+    (commentId: string, text: string) => {
+      const previous = findComment(data, commentId);
+      onEdit?.(commentId, text);
+      notifyMentions(commentId, text, previous?.mentions);
+    },
+    [data, onEdit, notifyMentions],
+  );
+
+  /**
+   * Add the current user's emoji reaction to a comment, or take it back if
+   * they already reacted with it
+   */
+  const toggleReaction = useCallback(
+    (commentId: string, emoji: string) => {
+      onReact?.(commentId, emoji, author);
+    },
+    [onReact, author],
+  );
+
+  /**
+   * Whether the current user has reacted to a comment with an emoji
+   */
+  const hasReacted = useCallback(
+    (commentId: string, emoji: string): boolean => {
+      const reaction = findComment(data, commentId)?.reactions?.find(
+        (r) => r.emoji === emoji,
+      );
+      return reaction?.users.includes(author) ?? false;
+    },
+    [data, author],
+  );
+
+  /**
+   * IDs of the people @mentioned in some text
+   */
+  const getMentions = useCallback(
+    (text: string): string[] => {
+      if (!users) return [];
+      return getMentionedUsers(text, users).map((user) => user.id);
+    },
+    [users],
+  );
+
+  /**
+   * Get the IDs of all comments at the current cursor position, innermost
+   * (shortest in the paragraph) first
+   */
+  const getCommentAtCursor = useCallback((): string[] => {
+    if (!editor) return [];
 
     const { from } = editor.state.selection;
     const resolvedPos = editor.state.doc.resolve(from);
-    const marks = resolvedPos.marks();
+    const ids = new Set<string>();
 
-    for (const mark of marks) {
+    for (const mark of resolvedPos.marks()) {
       if (mark.type.name === "comment" && mark.attrs.commentId) {
-        return mark.attrs.commentId;
+        ids.add(mark.attrs.commentId);
       }
     }
+    if (ids.size < 2) return [...ids];
+
+    // How much of the paragraph each comment covers
+    const lengths = new Map<string, number>();
+    resolvedPos.parent.forEach((child) => {
+      child.marks.forEach((mark) => {
+        const id = mark.attrs.commentId;
+        if (mark.type.name === "comment" && ids.has(id)) {
+          lengths.set(id, (lengths.get(id) ?? 0) + child.nodeSize);
+        }
+      });
+    });
 
-    return null;
+    return [...ids].sort(
+      (a, b) => (lengths.get(a) ?? 0) - (lengths.get(b) ?? 0),
+    );
   }, [editor]);
 
   /**
@@ -205,7 +378,7 @@ export function useComments(
    */
   const getCommentById = useCallback(
     (commentId: string): CommentData | undefined => {
-      return data.find((c) => c.id === commentId);
+      return findComment(data, commentId);
     },
     [data],
   );
@@ -256,14 +429,26 @@ export function useComments(
     deleteComment,
     /** Resolve a comment */
     resolveComment,
+    /** Reopen a resolved comment */
+    reopenComment,
     /** Reply to a comment */
     replyToComment,
-    /** Get comment ID at cursor position */
+    /** Change the text of a comment or reply */
+    editComment,
+    /** Add or take back the current user's reaction */
+    toggleReaction,
+    /** Whether the current user reacted with an emoji */
+    hasReacted,
+    /** IDs of the people @mentioned in some text */
+    getMentions,
+    /** Get the IDs of the comments at the cursor, innermost first */
     getCommentAtCursor,
     /** Get comment data by ID */
     getCommentById,
     /** Check if comment has a mark in document */
     hasCommentMark,
+    /** Comments whose text was deleted, with no anchor left */
+    getOrphanedComments,
   };
 }
 
@@ -16,8 +16,16 @@ import { ParagraphWithId } from "../../extensions/ParagraphWithId";
 import { PersistentSelection } from "../../extensions/PersistentSelection";
 import { Insertion } from "../../extensions/Insertion";
 import { Deletion } from "../../extensions/Deletion";
+import { FormatChange } from "../../extensions/FormatChange";
+import { MoveFrom, MoveTo } from "../../extensions/Move";
+import { BlockChanges } from "../../extensions/BlockChanges";
+import { TableChanges } from "../../extensions/TableChanges";
 import { Comment } from "../../extensions/Comment";
+import { CommentAnchor } from "../../extensions/CommentAnchor";
 import { TrackChangesMode } from "../../extensions/TrackChangesMode";
+import { ChangeFilter } from "../../extensions/ChangeFilter";
+import { ChangeView } from "../../extensions/ChangeView";
+import { Conflict, ConflictVersion } from "../../extensions/Conflict";
 import { SearchAndReplace } from "../../extensions/SearchAndReplace";
 import { RawStylesStorage } from "../../extensions/RawStylesStorage";
 
@@ -93,11 +101,21 @@ export function useDocumentEditor(options: UseDocumentEditorOptions = {}) {
       TableHeader,
       Insertion,
       Deletion,
+      FormatChange,
+      MoveFrom,
+      MoveTo,
+      BlockChanges,
+      TableChanges,
       Comment,
+      CommentAnchor,
       TrackChangesMode.configure({
         enabled: trackChangesEnabled,
         author: trackChangesAuthor,
       }),
+      ChangeFilter,
+      ChangeView,
+      Conflict,
+      ConflictVersion,
       SearchAndReplace.configure({
         searchResultClass: "search-result",
       }),
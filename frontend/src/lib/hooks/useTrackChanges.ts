@@ -1,11 +1,126 @@
-import { useCallback, useMemo, useEffect } from "react";
+import { useCallback, useMemo, useEffect, useRef, useState } from "react";
 import type { Editor } from "@tiptap/react";
-import type { TrackedChange } from "../types";
+import type {
+  ChangeStats,
+  TrackedChange,
+  TrackedChangeFilter,
+  TrackedChangeGroup,
+  TrackedChangeType,
+} from "../types";
+import { groupTrackedChanges } from "../utils/changeGroups";
+import { matchesChangeFilter } from "../utils/changeFilter";
+import { getChangeStats as computeChangeStats } from "../utils/changeStats";
+import type {
+  BlockChangeInfo,
+  BlockTypeChangeInfo,
+  TrackedBlockAttribute,
+} from "../../extensions/BlockChanges";
+import type { TrackedTableAttribute } from "../../extensions/TableChanges";
+
+/** Mark names that represent tracked changes */
+const TRACKED_CHANGE_MARKS = new Set<string>([
+  "insertion",
+  "deletion",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+
+/** Block attributes that represent structural changes */
+const TRACKED_BLOCK_CHANGE_TYPES: Record<
+  TrackedBlockAttribute,
+  TrackedChangeType
+> = {
+  trackedInsertBlock: "blockInsertion",
+  trackedMergeFrom: "blockMerge",
+  trackedTypeChange: "blockTypeChange",
+};
+
+/** Table revision attributes, by node role (rows vs column cells) */
+const TRACKED_TABLE_CHANGE_TYPES: Record<
+  "row" | "cell",
+  Record<TrackedTableAttribute, TrackedChangeType>
+> = {
+  row: { trackedInsert: "rowInsertion", trackedDelete: "rowDeletion" },
+  cell: { trackedInsert: "columnInsertion", trackedDelete: "columnDeletion" },
+};
+
+/** Reason given when a locked change is resolved without permission */
+const LOCKED_REASON = "Track changes is locked";
+
+/**
+ * The CollaborativeTrackChanges extension, when the editor has one
+ */
+function getCollaborativeTrackChanges(editor: Editor | null) {
+  return editor?.extensionManager.extensions.find(
+    (ext) => ext.name === "collaborativeTrackChanges",
+  );
+}
+
+/**
+ * Run the accept or reject command matching a change's type. Callers check
+ * permission first. While tracking is locked, the lock asks permission for
+ * the change again before letting it through. Returns whether the change
+ * was resolved.
+ */
+function resolveChange(
+  editor: Editor,
+  change: TrackedChange,
+  action: "accept" | "reject",
+): boolean {
+  const chain = editor.chain();
+  switch (change.type) {
+    case "insertion":
+      return (
+        action === "accept"
+          ? chain.acceptInsertion(change.id)
+          : chain.rejectInsertion(change.id)
+      ).run();
+    case "deletion":
+      return (
+        action === "accept"
+          ? chain.acceptDeletion(change.id)
+          : chain.rejectDeletion(change.id)
+      ).run();
+    case "formatChange":
+      return (
+        action === "accept"
+          ? chain.acceptFormatChange(change.id)
+          : chain.rejectFormatChange(change.id)
+      ).run();
+    case "moveFrom":
+    case "moveTo":
+      // Both halves of a move are resolved together
+      if (!change.moveId) return false;
+      return (
+        action === "accept"
+          ? chain.acceptMove(change.moveId)
+          : chain.rejectMove(change.moveId)
+      ).run();
+    case "blockInsertion":
+    case "blockMerge":
+    case "blockTypeChange":
+      return (
+        action === "accept"
+          ? chain.acceptBlockChange(change.id)
+          : chain.rejectBlockChange(change.id)
+      ).run();
+    case "rowInsertion":
+    case "rowDeletion":
+    case "columnInsertion":
+    case "columnDeletion":
+      return (
+        action === "accept"
+          ? chain.acceptTableChange(change.id)
+          : chain.rejectTableChange(change.id)
+      ).run();
+  }
+}
 
 export interface UseTrackChangesOptions {
   /** Initial enabled state */
   enabled?: boolean;
-  /** Initial author */
+  /** Initial author (default: the collaborator's name when collaborating) */
   author?: string;
   /** Called when enabled state changes */
   onEnabledChange?: (enabled: boolean) => void;
@@ -15,6 +130,24 @@ export interface UseTrackChangesOptions {
   onAccept?: (change: TrackedChange) => void;
   /** Called when a change is rejected */
   onReject?: (change: TrackedChange) => void;
+  /** Initial change filter */
+  filter?: TrackedChangeFilter;
+  /** Fade out changes that don't match the filter */
+  hideFilteredChanges?: boolean;
+  /** Keep tracking on and require permission to accept/reject */
+  lock?: boolean;
+  /**
+   * Decide whether `user` may resolve a change while locked, or unlock
+   * tracking when `change` is null. Return true to allow, or false / a
+   * reason string to deny. Without it, locked changes can't be resolved at
+   * all and the lock can't be lifted.
+   */
+  canResolveChange?: (
+    change: TrackedChange | null,
+    user: string,
+  ) => boolean | string;
+  /** Called when accepting/rejecting a change is denied */
+  onResolveDenied?: (change: TrackedChange, reason: string) => void;
 }
 
 /**
@@ -36,6 +169,10 @@ export interface UseTrackChangesOptions {
  *   enabled: true,
  *   author: 'John Doe',
  * });
+ *
+ * // Review only the AI's changes
+ * setFilter({ authors: ['AI Assistant'] });
+ * acceptFiltered({ authors: ['AI Assistant'], types: ['insertion'] });
  * ```
  */
 export function useTrackChanges(
@@ -44,17 +181,53 @@ export function useTrackChanges(
 ) {
   const {
     enabled: initialEnabled = false,
-    author: initialAuthor = "Unknown Author",
+    author: authorOption,
     onEnabledChange,
     onAuthorChange,
     onAccept,
     onReject,
+    filter: initialFilter,
+    hideFilteredChanges = false,
+    lock = false,
+    canResolveChange,
+    onResolveDenied,
   } = options;
 
+  const [filter, setFilterState] = useState<TrackedChangeFilter | null>(
+    initialFilter ?? null,
+  );
+
+  // Sync filter with props
+  useEffect(() => {
+    setFilterState(initialFilter ?? null);
+  }, [initialFilter]);
+
+  // Sync filter decorations with editor
+  useEffect(() => {
+    if (!editor?.storage.changeFilter) return;
+    editor.commands.setChangeFilter(filter, hideFilteredChanges);
+  }, [editor, filter, hideFilteredChanges]);
+
+  // When collaborating, the author defaults to the collaborator's name
+  const collaborative = getCollaborativeTrackChanges(editor);
+  const initialAuthor =
+    authorOption ?? collaborative?.options.user?.name ?? "Unknown Author";
+
+  // Editor whose enabled state was last synced with the option
+  const enabledSyncedEditor = useRef<Editor | null>(null);
+
   // Sync enabled state with editor
   useEffect(() => {
     if (!editor) return;
 
+    // A collaborative editor starts with the shared state; only later
+    // changes to the option are applied (and shared)
+    const isNewEditor = enabledSyncedEditor.current !== editor;
+    enabledSyncedEditor.current = editor;
+    if (isNewEditor && getCollaborativeTrackChanges(editor)?.options.document) {
+      return;
+    }
+
     if (initialEnabled) {
       editor.commands.enableTrackChanges();
     } else {
@@ -68,6 +241,32 @@ export function useTrackChanges(
     editor.commands.setTrackChangesAuthor(initialAuthor);
   }, [editor, initialAuthor]);
 
+  // Latest changes and permission callback, for the editor's lock to ask
+  const changesRef = useRef<TrackedChange[]>([]);
+  const canResolveChangeRef = useRef(canResolveChange);
+  canResolveChangeRef.current = canResolveChange;
+
+  // Sync lock with editor (locking also turns tracking on). Permission is
+  // asked for the configured author, not whatever author is set later.
+  useEffect(() => {
+    if (!editor) return;
+
+    if (lock) {
+      editor.commands.lockTrackChanges({
+        user: initialAuthor,
+        permission: (changeId, user) => {
+          const check = canResolveChangeRef.current;
+          if (!check) return false;
+          if (changeId === null) return check(null, user) === true;
+          const change = changesRef.current.find((c) => c.id === changeId);
+          return !!change && check(change, user) === true;
+        },
+      });
+    } else {
+      editor.commands.unlockTrackChanges();
+    }
+  }, [editor, lock]);
+
   // Get current enabled state from editor storage
   const enabled = useMemo(() => {
     if (!editor) return initialEnabled;
@@ -85,6 +284,8 @@ export function useTrackChanges(
   const setEnabled = useCallback(
     (newEnabled: boolean) => {
       if (!editor) return;
+      // Locked tracking can't be turned off
+      if (!newEnabled && lock) return;
 
       if (newEnabled) {
         editor.commands.enableTrackChanges();
@@ -94,7 +295,7 @@ export function useTrackChanges(
 
       onEnabledChange?.(newEnabled);
     },
-    [editor, onEnabledChange],
+    [editor, lock, onEnabledChange],
   );
 
   const setAuthor = useCallback(
@@ -118,9 +319,62 @@ export function useTrackChanges(
     const doc = editor.state.doc;
 
     doc.descendants((node, pos) => {
+      if (node.isBlock) {
+        for (const [attribute, type] of Object.entries(
+          TRACKED_BLOCK_CHANGE_TYPES,
+        )) {
+          const info = node.attrs[attribute] as BlockChangeInfo | null;
+          if (!info || changeMap.has(info.id)) continue;
+          const change: TrackedChange = {
+            id: info.id,
+            type,
+            author: info.author,
+            date: info.date,
+            text: node.textContent,
+            from: pos,
+            to: pos + node.nodeSize,
+          };
+          if (type === "blockTypeChange") {
+            change.previousType = (info as BlockTypeChangeInfo).previousType;
+          }
+          changeMap.set(info.id, change);
+        }
+      }
+
+      const tableRole = node.type.spec.tableRole as string | undefined;
+      if (
+        tableRole === "row" ||
+        tableRole === "cell" ||
+        tableRole === "header_cell"
+      ) {
+        const types =
+          TRACKED_TABLE_CHANGE_TYPES[tableRole === "row" ? "row" : "cell"];
+        for (const [attribute, type] of Object.entries(types)) {
+          const info = node.attrs[attribute] as BlockChangeInfo | null;
+          if (!info) continue;
+          const existing = changeMap.get(info.id);
+          if (existing) {
+            // A column revision spans one cell per row
+            existing.from = Math.min(existing.from, pos);
+            existing.to = Math.max(existing.to, pos + node.nodeSize);
+            existing.text += node.textContent;
+          } else {
+            changeMap.set(info.id, {
+              id: info.id,
+              type,
+              author: info.author,
+              date: info.date,
+              text: node.textContent,
+              from: pos,
+              to: pos + node.nodeSize,
+            });
+          }
+        }
+      }
+
       if (node.isText) {
         node.marks.forEach((mark) => {
-          if (mark.type.name === "insertion" || mark.type.name === "deletion") {
+          if (TRACKED_CHANGE_MARKS.has(mark.type.name)) {
             const id = mark.attrs.id;
             const existing = changeMap.get(id);
             if (existing) {
@@ -129,15 +383,25 @@ export function useTrackChanges(
               existing.to = Math.max(existing.to, pos + node.nodeSize);
               existing.text += node.text || "";
             } else {
-              changeMap.set(id, {
+              const change: TrackedChange = {
                 id,
-                type: mark.type.name as "insertion" | "deletion",
+                type: mark.type.name as TrackedChangeType,
                 author: mark.attrs.author,
                 date: mark.attrs.date,
                 text: node.text || "",
                 from: pos,
                 to: pos + node.nodeSize,
-              });
+              };
+              if (mark.type.name === "formatChange") {
+                change.previousMarks = mark.attrs.previousMarks ?? [];
+              }
+              if (mark.attrs.moveId) {
+                change.moveId = mark.attrs.moveId;
+              }
+              if (mark.attrs.reason) {
+                change.reason = mark.attrs.reason;
+              }
+              changeMap.set(id, change);
             }
           }
         });
@@ -147,6 +411,32 @@ export function useTrackChanges(
     // Convert to array and sort by position in document
     return Array.from(changeMap.values()).sort((a, b) => a.from - b.from);
   }, [editor?.state.doc]);
+  changesRef.current = changes;
+
+  // Changes matching the current filter (all changes when unfiltered)
+  const filteredChanges = useMemo(
+    (): TrackedChange[] =>
+      filter ? changes.filter((c) => matchesChangeFilter(c, filter)) : changes,
+    [changes, filter],
+  );
+
+  const setFilter = useCallback((newFilter: TrackedChangeFilter | null) => {
+    setFilterState(newFilter);
+  }, []);
+
+  // Adjacent deletion + insertion pairs reviewed as one replacement
+  const groups = useMemo(
+    (): TrackedChangeGroup[] => groupTrackedChanges(changes),
+    [changes],
+  );
+
+  // Counts per author, day and section
+  const stats = useMemo(
+    (): ChangeStats => computeChangeStats(editor?.state.doc ?? null, changes),
+    [editor, changes],
+  );
+
+  const getChangeStats = useCallback((): ChangeStats => stats, [stats]);
 
   const findChangeById = useCallback(
     (id: string): TrackedChange | undefined => {
@@ -155,73 +445,206 @@ export function useTrackChanges(
     [changes],
   );
 
-  const acceptChange = useCallback(
-    (changeId: string) => {
-      if (!editor) return;
+  // Why the current author may not resolve a change, or null if they may
+  const getDenialReason = useCallback(
+    (change: TrackedChange): string | null => {
+      if (!lock) return null;
+      const result = canResolveChange?.(change, initialAuthor) ?? false;
+      if (result === true) return null;
+      return typeof result === "string" ? result : LOCKED_REASON;
+    },
+    [lock, canResolveChange, initialAuthor],
+  );
 
-      const change = findChangeById(changeId);
-      if (!change) return;
+  const canResolve = useCallback(
+    (change: TrackedChange): boolean => getDenialReason(change) === null,
+    [getDenialReason],
+  );
+
+  // Resolve a change if permitted, reporting a denial otherwise
+  const resolveIfPermitted = useCallback(
+    (change: TrackedChange, action: "accept" | "reject"): boolean => {
+      if (!editor) return false;
+
+      const reason = getDenialReason(change);
+      if (reason !== null) {
+        onResolveDenied?.(change, reason);
+        return false;
+      }
 
-      if (change.type === "insertion") {
-        editor.commands.acceptInsertion(changeId);
+      if (!resolveChange(editor, change, action)) return false;
+      if (action === "accept") {
+        onAccept?.(change);
       } else {
-        editor.commands.acceptDeletion(changeId);
+        onReject?.(change);
       }
+      return true;
+    },
+    [editor, getDenialReason, onResolveDenied, onAccept, onReject],
+  );
+
+  const acceptChange = useCallback(
+    (changeId: string) => {
+      const change = findChangeById(changeId);
+      if (!change) return;
 
-      onAccept?.(change);
+      resolveIfPermitted(change, "accept");
     },
-    [editor, findChangeById, onAccept],
+    [findChangeById, resolveIfPermitted],
   );
 
   const rejectChange = useCallback(
     (changeId: string) => {
-      if (!editor) return;
-
       const change = findChangeById(changeId);
       if (!change) return;
 
-      if (change.type === "insertion") {
-        editor.commands.rejectInsertion(changeId);
-      } else {
-        editor.commands.rejectDeletion(changeId);
-      }
+      resolveIfPermitted(change, "reject");
+    },
+    [findChangeById, resolveIfPermitted],
+  );
 
-      onReject?.(change);
+  const findGroupById = useCallback(
+    (groupId: string): TrackedChangeGroup | undefined => {
+      return groups.find((g) => g.id === groupId);
     },
-    [editor, findChangeById, onReject],
+    [groups],
   );
 
-  const acceptAll = useCallback(() => {
-    if (!editor) return;
+  const getGroupAt = useCallback(
+    (pos: number): TrackedChangeGroup | undefined => {
+      return groups.find((g) => pos >= g.from && pos <= g.to);
+    },
+    [groups],
+  );
 
-    // Process in reverse order to maintain positions
-    const sortedChanges = [...changes].sort((a, b) => b.from - a.from);
+  const resolveGroup = useCallback(
+    (groupId: string, action: "accept" | "reject") => {
+      if (!editor) return;
 
-    sortedChanges.forEach((change) => {
-      if (change.type === "insertion") {
-        editor.commands.acceptInsertion(change.id);
-      } else {
-        editor.commands.acceptDeletion(change.id);
-      }
-      onAccept?.(change);
-    });
-  }, [editor, changes, onAccept]);
+      const group = findGroupById(groupId);
+      if (!group) return;
 
-  const rejectAll = useCallback(() => {
-    if (!editor) return;
+      // Process in reverse order to maintain positions
+      const members = changes
+        .filter((c) => group.changeIds.includes(c.id))
+        .sort((a, b) => b.from - a.from);
 
-    // Process in reverse order to maintain positions
-    const sortedChanges = [...changes].sort((a, b) => b.from - a.from);
+      members.forEach((change) => resolveIfPermitted(change, action));
+    },
+    [editor, changes, findGroupById, resolveIfPermitted],
+  );
 
-    sortedChanges.forEach((change) => {
-      if (change.type === "insertion") {
-        editor.commands.rejectInsertion(change.id);
-      } else {
-        editor.commands.rejectDeletion(change.id);
+  const acceptGroup = useCallback(
+    (groupId: string) => resolveGroup(groupId, "accept"),
+    [resolveGroup],
+  );
+
+  const rejectGroup = useCallback(
+    (groupId: string) => resolveGroup(groupId, "reject"),
+    [resolveGroup],
+  );
+
+  const resolveAll = useCallback(
+    (action: "accept" | "reject", allFilter?: TrackedChangeFilter) => {
+      if (!editor) return;
+
+      // Process in reverse order to maintain positions
+      const sortedChanges = changes
+        .filter((c) => matchesChangeFilter(c, allFilter))
+        .sort((a, b) => b.from - a.from);
+
+      sortedChanges.forEach((change) => resolveIfPermitted(change, action));
+    },
+    [editor, changes, resolveIfPermitted],
+  );
+
+  const acceptAll = useCallback(() => resolveAll("accept"), [resolveAll]);
+
+  const rejectAll = useCallback(() => resolveAll("reject"), [resolveAll]);
+
+  const acceptFiltered = useCallback(
+    (allFilter: TrackedChangeFilter) => resolveAll("accept", allFilter),
+    [resolveAll],
+  );
+
+  const rejectFiltered = useCallback(
+    (allFilter: TrackedChangeFilter) => resolveAll("reject", allFilter),
+    [resolveAll],
+  );
+
+  const resolveRange = useCallback(
+    (action: "accept" | "reject", from?: number, to?: number) => {
+      if (!editor) return;
+
+      // Default to the current selection
+      const range =
+        from === undefined || to === undefined
+          ? editor.state.selection
+          : { from, to };
+      if (range.from === range.to) return;
+
+      const permitted = changes.filter((change) => {
+        if (change.from >= range.to || change.to <= range.from) return false;
+        const reason = getDenialReason(change);
+        if (reason !== null) {
+          onResolveDenied?.(change, reason);
+          return false;
+        }
+        return true;
+      });
+
+      const resolved: TrackedChange[] = [];
+
+      // Insertions and deletions are split at the range boundaries, so only
+      // the part inside the range is reported
+      const textChanges = permitted.filter(
+        (c) => c.type === "insertion" || c.type === "deletion",
+      );
+      if (textChanges.length > 0) {
+        const parts = textChanges.map((change) => {
+          const partFrom = Math.max(change.from, range.from);
+          const partTo = Math.min(change.to, range.to);
+          return {
+            ...change,
+            from: partFrom,
+            to: partTo,
+            text: editor.state.doc.textBetween(partFrom, partTo),
+          };
+        });
+        const ids = textChanges.map((c) => c.id);
+        const chain = editor.chain();
+        const applied = (
+          action === "accept"
+            ? chain.acceptChangesInRange(range.from, range.to, ids)
+            : chain.rejectChangesInRange(range.from, range.to, ids)
+        ).run();
+        if (applied) resolved.push(...parts);
       }
-      onReject?.(change);
-    });
-  }, [editor, changes, onReject]);
+
+      // Other changes (formatting, moves, blocks, tables) are resolved whole
+      permitted
+        .filter((c) => c.type !== "insertion" && c.type !== "deletion")
+        .sort((a, b) => b.from - a.from)
+        .forEach((change) => {
+          if (resolveChange(editor, change, action)) resolved.push(change);
+        });
+
+      resolved.forEach((change) =>
+        action === "accept" ? onAccept?.(change) : onReject?.(change),
+      );
+    },
+    [editor, changes, getDenialReason, onResolveDenied, onAccept, onReject],
+  );
+
+  const acceptChangesInRange = useCallback(
+    (from?: number, to?: number) => resolveRange("accept", from, to),
+    [resolveRange],
+  );
+
+  const rejectChangesInRange = useCallback(
+    (from?: number, to?: number) => resolveRange("reject", from, to),
+    [resolveRange],
+  );
 
   return {
     /** Whether track changes is enabled */
@@ -234,6 +657,10 @@ export function useTrackChanges(
     author,
     /** Set author name */
     setAuthor,
+    /** Whether tracking is locked */
+    locked: lock,
+    /** Whether the current author may accept/reject a change */
+    canResolve,
     /** List of all tracked changes */
     changes,
     /** Accept a specific change by ID */
@@ -244,8 +671,34 @@ export function useTrackChanges(
     acceptAll,
     /** Reject all changes */
     rejectAll,
+    /** Accept the changes matching a filter */
+    acceptFiltered,
+    /** Reject the changes matching a filter */
+    rejectFiltered,
+    /** Accept changes between two positions (default: the selection) */
+    acceptChangesInRange,
+    /** Reject changes between two positions (default: the selection) */
+    rejectChangesInRange,
+    /** Current change filter (null when unfiltered) */
+    filter,
+    /** Set or clear the change filter */
+    setFilter,
+    /** Changes matching the current filter */
+    filteredChanges,
     /** Find a change by ID */
     findChangeById,
+    /** Changes grouped for review (replacements paired up) */
+    groups,
+    /** Accept every change in a group */
+    acceptGroup,
+    /** Reject every change in a group */
+    rejectGroup,
+    /** Find the group containing a document position */
+    getGroupAt,
+    /** Change counts per author, day and section */
+    stats,
+    /** Get change counts per author, day and section */
+    getChangeStats,
   };
 }
 
@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { Editor } from "@tiptap/react";
+import { yXmlFragmentToProsemirrorJSON } from "y-prosemirror";
+import type * as Y from "yjs";
+import { compareDocuments } from "../utils/compareDocuments";
+import { getDocumentView } from "../utils/documentView";
+import { createIndexedDBVersionStorage } from "../utils/versionStorage";
+import type { DocumentVersion, TipTapDocument, VersionStorage } from "../types";
+
+export interface UseVersionHistoryOptions {
+  /** Document the versions belong to */
+  documentId: string;
+  /** Where versions are kept (default: IndexedDB) */
+  storage?: VersionStorage;
+  /** Author recorded on new versions and on compare/restore changes */
+  author?: string;
+  /**
+   * Y.Doc from useCollaboration. Snapshots are read from it rather than
+   * the local editor, so every collaborator snapshots the same state.
+   */
+  ydoc?: Y.Doc;
+}
+
+export interface RestoreVersionOptions {
+  /**
+   * Restore as tracked changes against the current document with its
+   * pending changes accepted, so the restore can be reviewed (default:
+   * replace the content outright)
+   */
+  asTrackedChanges?: boolean;
+}
+
+function generateVersionId(): string {
+  return `ver-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Newest first */
+function sortVersions(versions: DocumentVersion[]): DocumentVersion[] {
+  return [...versions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Hook for named snapshots of a document: save, list, view, compare and
+ * restore versions.
+ *
+ * @example
+ * ```tsx
+ * const history = useVersionHistory(editor, {
+ *   documentId: "lease-42",
+ *   author: "Jane",
+ * });
+ *
+ * await history.saveVersion("Sent to counterparty");
+ * const redline = history.compareVersion(history.versions[0].id);
+ * history.restoreVersion(history.versions[0].id, { asTrackedChanges: true });
+ * ```
+ */
+export function useVersionHistory(
+  editor: Editor | null,
+  options: UseVersionHistoryOptions,
+) {
+  const {
+    documentId,
+    storage: customStorage,
+    author = "Unknown Author",
+    ydoc,
+  } = options;
+
+  const storage = useMemo(
+    () => customStorage ?? createIndexedDBVersionStorage(),
+    [customStorage],
+  );
+
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Load versions for the document
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    storage
+      .list(documentId)
+      .then((stored) => {
+        if (cancelled) return;
+        setVersions(sortVersions(stored));
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, documentId]);
+
+  /**
+   * Current document content (from the Y.Doc when collaborating)
+   */
+  const getCurrentContent = useCallback((): TipTapDocument | null => {
+    if (ydoc) {
+      return yXmlFragmentToProsemirrorJSON(
+        ydoc.getXmlFragment("default"),
+      ) as TipTapDocument;
+    }
+    return editor ? (editor.getJSON() as TipTapDocument) : null;
+  }, [editor, ydoc]);
+
+  /**
+   * Get a version by ID
+   */
+  const getVersion = useCallback(
+    (versionId: string) => versions.find((v) => v.id === versionId) ?? null,
+    [versions],
+  );
+
+  /**
+   * Snapshot the current document under a name
+   */
+  const saveVersion = useCallback(
+    async (name: string) => {
+      const content = getCurrentContent();
+      if (!content) return null;
+
+      const version: DocumentVersion = {
+        id: generateVersionId(),
+        documentId,
+        name,
+        author,
+        createdAt: new Date().toISOString(),
+        content,
+      };
+
+      try {
+        await storage.save(version);
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      }
+      setVersions((prev) => sortVersions([...prev, version]));
+      return version;
+    },
+    [getCurrentContent, storage, documentId, author],
+  );
+
+  /**
+   * Delete a version
+   */
+  const deleteVersion = useCallback(
+    async (versionId: string) => {
+      try {
+        await storage.remove(documentId, versionId);
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      }
+      setVersions((prev) => prev.filter((v) => v.id !== versionId));
+    },
+    [storage, documentId],
+  );
+
+  /**
+   * Redline of the current document against a version: what changed since
+   * the snapshot, as tracked changes
+   */
+  const compareVersion = useCallback(
+    (versionId: string): TipTapDocument | null => {
+      const version = getVersion(versionId);
+      const current = getCurrentContent();
+      if (!version || !current) return null;
+      return compareDocuments(version.content, current, { author });
+    },
+    [getVersion, getCurrentContent, author],
+  );
+
+  /**
+   * Put a version's content back in the editor
+   */
+  const restoreVersion = useCallback(
+    (versionId: string, restoreOptions: RestoreVersionOptions = {}) => {
+      const version = getVersion(versionId);
+      const current = getCurrentContent();
+      if (!editor || !version || !current) return false;
+
+      // Pending changes can't be compared as text; the redline starts from
+      // the document as it would read with them accepted
+      const content = restoreOptions.asTrackedChanges
+        ? compareDocuments(getDocumentView(current, "final"), version.content, {
+            author,
+          })
+        : version.content;
+
+      // The content already says what changed; don't track the replacement
+      return editor
+        .chain()
+        .setMeta("trackChangesProcessed", true)
+        .setContent(content, true)
+        .run();
+    },
+    [editor, getVersion, getCurrentContent, author],
+  );
+
+  return {
+    /** Saved versions, newest first */
+    versions,
+    /** Whether versions are still loading from storage */
+    isLoading,
+    /** Last storage error */
+    error,
+    /** Get a version by ID */
+    getVersion,
+    /** Snapshot the current document under a name */
+    saveVersion,
+    /** Delete a version */
+    deleteVersion,
+    /** Redline of the current document against a version */
+    compareVersion,
+    /** Put a version's content back in the editor */
+    restoreVersion,
+  };
+}
+
+export type UseVersionHistoryReturn = ReturnType<typeof useVersionHistory>;
@@ -6,7 +6,10 @@ export {
   useDocumentEditor,
   useTrackChanges,
   useComments,
+  useCollaborativeComments,
+  useChangeComments,
   useCollaboration,
+  useVersionHistory,
   generateUserColor,
   getUserColor,
   getAuthorColor,
@@ -21,14 +24,56 @@ export type {
   UseTrackChangesReturn,
   UseCommentsOptions,
   UseCommentsReturn,
+  UseCollaborativeCommentsOptions,
+  UseCollaborativeCommentsReturn,
+  UseChangeCommentsOptions,
+  UseChangeCommentsReturn,
   UseCollaborationOptions,
   UseCollaborationReturn,
   CollaborationUser,
+  UseVersionHistoryOptions,
+  UseVersionHistoryReturn,
+  RestoreVersionOptions,
   AuthorColor,
 } from "./hooks";
 
 // Utilities
-export { createExportPayload, downloadBlob, exportToWord } from "./utils";
+export {
+  createExportPayload,
+  downloadBlob,
+  exportToWord,
+  groupTrackedChanges,
+  matchesChangeFilter,
+  getDocumentView,
+  getChangeStats,
+  compareDocuments,
+  mergeDocuments,
+  createIndexedDBVersionStorage,
+  createMemoryVersionStorage,
+  parseMentions,
+  getMentionedUsers,
+  getMentionQuery,
+  createUserDirectory,
+  createOpenAIProvider,
+  createAzureOpenAIProvider,
+  createAnthropicProvider,
+  parsePartialJSON,
+  getDocumentChunks,
+  getSelectionNeighbourhood,
+  getDocumentOutline,
+  estimateTokens,
+} from "./utils";
+export type {
+  CompareDocumentsOptions,
+  MergeDocumentsOptions,
+  MentionMatch,
+  OpenAIProviderOptions,
+  AzureOpenAIProviderOptions,
+  AnthropicProviderOptions,
+  PartialJSONObject,
+  DocumentChunk,
+  DocumentChunkOptions,
+} from "./utils";
 
 // AI Components
 export { APIKeyInput, AIChatPanel, PromptInput } from "../components/ai";
@@ -44,6 +89,7 @@ export {
 export type {
   AIEditorState,
   AIEditorConfig,
+  AIChunkingConfig,
   ChatMessage,
   SelectionContext,
   AIEdit,
@@ -60,18 +106,36 @@ export type {
   TipTapDocument,
   TipTapNode,
   TipTapMark,
+  GetContentOptions,
 
   // Comment types
   CommentData,
+  ChangeCommentData,
+  CommentReaction,
+  CommentUser,
+  UserDirectory,
   SelectionRange,
 
   // Track changes types
   TrackedChange,
+  TrackedChangeType,
+  TrackedChangeGroup,
+  TrackedChangeFilter,
+  ChangeViewMode,
+  ChangeStats,
+  ChangeStatsEntry,
   TrackChangeRecommendation,
   TrackChangesConfig,
 
+  // AI provider types
+  AIProvider,
+  AIProviderMessage,
+  AIResponseSchema,
+  AICompletionRequest,
+
   // Comments config
   CommentsConfig,
+  ChangeCommentsConfig,
 
   // Styling types
   ClassNameConfig,
@@ -88,6 +152,10 @@ export type {
   ExportOptions,
   ExportPayload,
 
+  // Version history types
+  DocumentVersion,
+  VersionStorage,
+
   // Component types
   EditorHandle,
   DocumentEditorProps,
@@ -101,8 +169,18 @@ export type {
 // Re-export extensions for custom editor setups
 export { Insertion } from "../extensions/Insertion";
 export { Deletion } from "../extensions/Deletion";
+export { FormatChange } from "../extensions/FormatChange";
+export { MoveFrom, MoveTo } from "../extensions/Move";
+export { BlockChanges } from "../extensions/BlockChanges";
+export { TableChanges } from "../extensions/TableChanges";
 export { Comment } from "../extensions/Comment";
+export { CommentAnchor } from "../extensions/CommentAnchor";
 export { TrackChangesMode } from "../extensions/TrackChangesMode";
+export { ChangeFilter } from "../extensions/ChangeFilter";
+export { ChangeView } from "../extensions/ChangeView";
+export { CollaborativeTrackChanges } from "../extensions/CollaborativeTrackChanges";
+export { Conflict, ConflictVersion } from "../extensions/Conflict";
+export type { ConflictSide } from "../extensions/Conflict";
 export { Section } from "../extensions/Section";
 export { TableWithId } from "../extensions/TableWithId";
 export { ParagraphWithId } from "../extensions/ParagraphWithId";
@@ -111,3 +189,7 @@ export { SearchAndReplace } from "../extensions/SearchAndReplace";
 
 // UI Components
 export { FindReplaceBar } from "../components/FindReplaceBar";
+export { ChangeStatsSummary } from "../components/ChangeStatsSummary";
+export { VersionHistoryPanel } from "../components/VersionHistoryPanel";
+export { CommentsPanel } from "../components/CommentsPanel";
+export { CommentMargin } from "../components/CommentMargin";
@@ -31,6 +31,53 @@ export interface CommentData {
   date: string;
   text: string;
   replies?: CommentData[];
+  /** Whether the thread has been resolved */
+  resolved?: boolean;
+  /** Who resolved the thread */
+  resolvedBy?: string;
+  /** When the thread was resolved */
+  resolvedAt?: string;
+  /** When the text was last edited */
+  editedAt?: string;
+  /** IDs of users @mentioned in the text */
+  mentions?: string[];
+  /** Emoji reactions */
+  reactions?: CommentReaction[];
+}
+
+/**
+ * Emoji reaction on a comment, with everyone who reacted with it
+ */
+export interface CommentReaction {
+  emoji: string;
+  users: string[];
+}
+
+/**
+ * Someone who can be @mentioned in a comment
+ */
+export interface CommentUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * Looks up people for @mentions. Back it with your own user service, or
+ * use createUserDirectory() for a fixed list.
+ */
+export interface UserDirectory {
+  /** People matching a partially typed mention, for suggestions */
+  search: (query: string) => CommentUser[];
+  /** The person an @handle refers to, if any */
+  resolve: (handle: string) => CommentUser | null;
+}
+
+/**
+ * Comment attached to a tracked change rather than to a text range
+ */
+export interface ChangeCommentData extends CommentData {
+  /** ID of the tracked change this comment discusses */
+  changeId: string;
 }
 
 /**
@@ -38,12 +85,122 @@ export interface CommentData {
  */
 export interface TrackedChange {
   id: string;
-  type: "insertion" | "deletion";
+  type: TrackedChangeType;
   author: string | null;
   date: string | null;
   text: string;
   from: number;
   to: number;
+  /** Formatting marks before the change (formatChange only) */
+  previousMarks?: TipTapMark[];
+  /** Block type before the change, e.g. "paragraph" (blockTypeChange only) */
+  previousType?: string;
+  /** Shared by the moveFrom and moveTo halves of a move */
+  moveId?: string;
+  /** Why the change was made, e.g. the AI's explanation (insertion/deletion) */
+  reason?: string;
+}
+
+/**
+ * Tracked changes reviewed as one unit - an adjacent deletion + insertion
+ * ("replace X with Y") or a single change
+ */
+export interface TrackedChangeGroup {
+  /** ID of the first change in the group */
+  id: string;
+  type: "replacement" | TrackedChangeType;
+  author: string | null;
+  date: string | null;
+  /** Text removed by the group's deletion, if any */
+  deletedText: string;
+  /** Text added by the group's insertion, if any */
+  insertedText: string;
+  from: number;
+  to: number;
+  /** IDs of the member changes, in document order */
+  changeIds: string[];
+}
+
+/**
+ * Kinds of tracked change. The block* kinds are structural revisions
+ * recorded on paragraphs, headings and sections rather than on text; the
+ * row and column kinds are recorded on table rows and cells.
+ */
+export type TrackedChangeType =
+  | "insertion"
+  | "deletion"
+  | "formatChange"
+  | "moveFrom"
+  | "moveTo"
+  | "blockInsertion"
+  | "blockMerge"
+  | "blockTypeChange"
+  | "rowInsertion"
+  | "rowDeletion"
+  | "columnInsertion"
+  | "columnDeletion";
+
+/**
+ * Criteria for narrowing tracked changes, e.g. "everything the AI Assistant
+ * did since Monday". Every criterion given must match; empty or missing
+ * criteria match all changes.
+ */
+export interface TrackedChangeFilter {
+  /** Only changes by these authors */
+  authors?: string[];
+  /** Only changes made at or after this date */
+  since?: string | Date;
+  /** Only changes made at or before this date */
+  until?: string | Date;
+  /** Only changes of these kinds */
+  types?: TrackedChangeType[];
+}
+
+/**
+ * Change counts and character totals for one slice of the document's
+ * tracked changes (all changes, one author, one day or one section)
+ */
+export interface ChangeStatsEntry {
+  /** Number of tracked changes of any kind */
+  changes: number;
+  /** Number of insertions */
+  insertions: number;
+  /** Number of deletions */
+  deletions: number;
+  /** Characters inserted */
+  insertedCharacters: number;
+  /** Characters deleted */
+  deletedCharacters: number;
+}
+
+/**
+ * Statistics over the document's tracked changes
+ */
+export interface ChangeStats {
+  total: ChangeStatsEntry;
+  /** Keyed by author name */
+  byAuthor: Record<string, ChangeStatsEntry>;
+  /** Keyed by day of the change (YYYY-MM-DD) */
+  byDay: Record<string, ChangeStatsEntry>;
+  /** Keyed by section title (the section's heading) */
+  bySection: Record<string, ChangeStatsEntry>;
+}
+
+/**
+ * How tracked changes are presented:
+ * - `markup`: every change shown inline (default)
+ * - `simple-markup`: the final text with a change bar beside changed lines
+ * - `final`: the document as if every change were accepted
+ * - `original`: the document as if every change were rejected
+ */
+export type ChangeViewMode = "markup" | "simple-markup" | "final" | "original";
+
+/**
+ * Options for EditorHandle.getContent
+ */
+export interface GetContentOptions {
+  /** Return the document as seen in this view (default: "markup", as stored) */
+  view?: ChangeViewMode;
 }
 
 /**
@@ -134,14 +291,69 @@ export type ContextItemResolver = (
   dataTransfer: DataTransfer,
 ) => Promise<ContextItem[]> | ContextItem[];
 
+/**
+ * A message in a chat completion request
+ */
+export interface AIProviderMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * JSON schema the model's reply must match
+ */
+export interface AIResponseSchema {
+  /** Schema name (letters, digits, "_" and "-") */
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Chat completion request sent to an AIProvider
+ */
+export interface AICompletionRequest {
+  messages: AIProviderMessage[];
+  /** Shape of the JSON reply */
+  schema: AIResponseSchema;
+  /** Model to use (default: the provider's) */
+  model?: string;
+  temperature?: number;
+  /** Key entered in APIKeyInput, for providers created without one */
+  apiKey?: string | null;
+  /** Aborts the request when the prompt is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * An LLM service the built-in AI modes send requests to (see
+ * createOpenAIProvider, createAnthropicProvider, createAzureOpenAIProvider)
+ */
+export interface AIProvider {
+  /** Service name shown to users, e.g. in APIKeyInput */
+  label: string;
+  /** Run a chat completion and return the reply: JSON matching the schema */
+  complete(request: AICompletionRequest): Promise<string>;
+  /**
+   * Same as complete, calling onText with the reply so far as it streams
+   * in. Optional; providers without it aren't streamed.
+   */
+  stream?(
+    request: AICompletionRequest,
+    onText: (text: string) => void,
+  ): Promise<string>;
+}
+
 /**
  * Track changes configuration
  */
 export interface TrackChangesConfig {
   /** Enable track changes mode */
   enabled: boolean;
-  /** Current author name for new changes */
-  author: string;
+  /**
+   * Current author name for new changes (default: the collaborator's name
+   * when collaborating, otherwise "Unknown Author")
+   */
+  author?: string;
   /** Called when enabled state changes (e.g., from toolbar toggle) */
   onEnabledChange?: (enabled: boolean) => void;
   /** Called when author should change (optional) */
@@ -150,6 +362,26 @@ export interface TrackChangesConfig {
   onAccept?: (change: TrackedChange) => void;
   /** Called when a change is rejected */
   onReject?: (change: TrackedChange) => void;
+  /** Limit change navigation and accept/reject all to matching changes */
+  filter?: TrackedChangeFilter;
+  /** Fade out changes that don't match the filter */
+  hideFilteredChanges?: boolean;
+  /**
+   * Lock tracking (like Word's "Lock Tracking"): tracking is forced on, the
+   * toolbar toggle is hidden and accept/reject needs `canResolveChange`
+   */
+  lock?: boolean;
+  /**
+   * Decide whether `user` (the configured author) may accept/reject a change
+   * while locked, or lift the lock when `change` is null. Return true to
+   * allow, or false / a reason string to deny.
+   */
+  canResolveChange?: (
+    change: TrackedChange | null,
+    user: string,
+  ) => boolean | string;
+  /** Called when accepting/rejecting a change is denied, with the reason */
+  onResolveDenied?: (change: TrackedChange, reason: string) => void;
 }
 
 /**
@@ -159,13 +391,43 @@ export interface CommentsConfig {
   /** Array of comments to display/associate */
   data: CommentData[];
   /** Called when user creates a comment */
-  onAdd?: (range: SelectionRange, text: string) => void;
+  onAdd?: (range: SelectionRange, text: string, commentId: string) => void;
   /** Called when user replies to a comment */
   onReply?: (commentId: string, text: string) => void;
   /** Called when user resolves a comment */
-  onResolve?: (commentId: string) => void;
+  onResolve?: (commentId: string, resolvedBy: string) => void;
+  /** Called when user reopens a resolved comment */
+  onReopen?: (commentId: string) => void;
+  /** Called when user edits a comment's text */
+  onEdit?: (commentId: string, text: string) => void;
+  /** Called when user adds or removes an emoji reaction */
+  onReact?: (commentId: string, emoji: string, user: string) => void;
+  /** Called with the people @mentioned in a new comment, reply or edit */
+  onMention?: (commentId: string, users: CommentUser[]) => void;
   /** Called when user deletes a comment */
   onDelete?: (commentId: string) => void;
+  /** Called when comments lose their place in the document (text deleted) */
+  onOrphaned?: (commentIds: string[]) => void;
+  /** Current user, recorded as resolver and on reactions */
+  author?: string;
+  /** People who can be @mentioned */
+  users?: UserDirectory;
+}
+
+/**
+ * Configuration for discussion threads attached to tracked changes
+ */
+export interface ChangeCommentsConfig {
+  /** Comments on tracked changes, keyed to a change by `changeId` */
+  data: ChangeCommentData[];
+  /** Called when user comments on a change */
+  onAdd?: (changeId: string, text: string) => void;
+  /** Called when user replies to a change comment */
+  onReply?: (commentId: string, text: string) => void;
+  /** Called when user resolves a change comment */
+  onResolve?: (commentId: string) => void;
+  /** Called when user deletes a change comment */
+  onDelete?: (commentId: string) => void;
 }
 
 /**
@@ -260,12 +522,40 @@ export interface ExportPayload {
   filename: string;
 }
 
+/**
+ * A named snapshot of a document
+ */
+export interface DocumentVersion {
+  id: string;
+  /** Document the snapshot was taken of */
+  documentId: string;
+  name: string;
+  author: string;
+  /** ISO date the snapshot was taken */
+  createdAt: string;
+  content: TipTapDocument;
+}
+
+/**
+ * Where version snapshots are kept (see createIndexedDBVersionStorage)
+ */
+export interface VersionStorage {
+  /** All versions of a document, in any order */
+  list(documentId: string): Promise<DocumentVersion[]>;
+  /** Add or overwrite a version */
+  save(version: DocumentVersion): Promise<void>;
+  /** Delete a version */
+  remove(documentId: string, versionId: string): Promise<void>;
+}
+
 /**
  * Imperative handle for the DocumentEditor component
  */
 export interface EditorHandle {
-  /** Get current TipTap JSON */
-  getContent(): TipTapDocument | Record<string, unknown>;
+  /** Get current TipTap JSON, optionally as seen in a view mode */
+  getContent(
+    options?: GetContentOptions,
+  ): TipTapDocument | Record<string, unknown>;
   /** Set content programmatically */
   setContent(content: TipTapDocument | Record<string, unknown>): void;
   /** Get all tracked changes */
@@ -278,6 +568,31 @@ export interface EditorHandle {
   acceptAllChanges(): void;
   /** Reject all changes */
   rejectAllChanges(): void;
+  /** Accept the changes matching a filter */
+  acceptFilteredChanges(filter: TrackedChangeFilter): void;
+  /** Reject the changes matching a filter */
+  rejectFilteredChanges(filter: TrackedChangeFilter): void;
+  /**
+   * Accept changes between two positions (default: the selection).
+   * Insertions/deletions are only accepted up to the range boundaries.
+   */
+  acceptChangesInRange(from?: number, to?: number): void;
+  /** Reject changes between two positions (default: the selection) */
+  rejectChangesInRange(from?: number, to?: number): void;
+  /** Set (or clear with null) the filter used for change navigation */
+  setChangeFilter(filter: TrackedChangeFilter | null): void;
+  /** Get changes grouped for review (replacements paired up) */
+  getChangeGroups(): TrackedChangeGroup[];
+  /** Get change counts and character totals per author, day and section */
+  getChangeStats(): ChangeStats;
+  /** Accept every change in a group */
+  acceptGroup(groupId: string): void;
+  /** Reject every change in a group */
+  rejectGroup(groupId: string): void;
+  /** Get the discussion thread of a tracked change */
+  getChangeComments(changeId: string): ChangeCommentData[];
+  /** Comment on a tracked change (calls changeComments.onAdd) */
+  addChangeComment(changeId: string, text: string): void;
   /** Enable/disable track changes */
   setTrackChangesEnabled(enabled: boolean): void;
   /** Set track changes author */
@@ -310,8 +625,12 @@ export interface DocumentEditorProps {
   placeholder?: string;
   /** Track changes configuration */
   trackChanges?: TrackChangesConfig;
+  /** How tracked changes are displayed (default: "markup") */
+  viewMode?: ChangeViewMode;
   /** Comments configuration */
   comments?: CommentsConfig;
+  /** Discussion threads on tracked changes */
+  changeComments?: ChangeCommentsConfig;
   /** Single className for root */
   className?: string;
   /** Granular className overrides */
@@ -0,0 +1,339 @@
+import type { AICompletionRequest, AIProvider } from "../types";
+
+export interface OpenAIProviderOptions {
+  /** API key (default: the key entered in APIKeyInput) */
+  apiKey?: string;
+  /**
+   * Base URL of an OpenAI-compatible API (default:
+   * "https://api.openai.com/v1"), e.g. "http://localhost:8080/v1" for a
+   * local llama.cpp or Ollama server
+   */
+  baseUrl?: string;
+  /** Default model (default: "gpt-5-mini") */
+  model?: string;
+  /** Maximum tokens in a reply (default: 65536) */
+  maxTokens?: number;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Name shown to users (default: "OpenAI") */
+  label?: string;
+}
+
+export interface AzureOpenAIProviderOptions {
+  /** API key (default: the key entered in APIKeyInput) */
+  apiKey?: string;
+  /** Resource endpoint, e.g. "https://my-resource.openai.azure.com" */
+  endpoint: string;
+  /** Name of the model deployment */
+  deployment: string;
+  /** API version (default: "2024-10-21") */
+  apiVersion?: string;
+  /** Maximum tokens in a reply (default: 65536) */
+  maxTokens?: number;
+}
+
+export interface AnthropicProviderOptions {
+  /** API key (default: the key entered in APIKeyInput) */
+  apiKey?: string;
+  /** Model to use unless the request names one */
+  model: string;
+  /** Base URL (default: "https://api.anthropic.com/v1") */
+  baseUrl?: string;
+  /** Maximum tokens in a reply (default: 16384) */
+  maxTokens?: number;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * POST JSON, throwing the API's error message if the request fails (or
+ * is aborted)
+ */
+async function post(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error?.message || `API request failed: ${response.status}`,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * The data of each server-sent event in a streamed response, parsed as
+ * JSON, until the stream ends or sends "[DONE]"
+ */
+async function* readEvents(response: Response) {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? "" : (events.pop() ?? "");
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (!data) continue;
+      if (data === "[DONE]") return;
+      yield JSON.parse(data);
+    }
+
+    if (done) return;
+  }
+}
+
+/**
+ * Stream a chat completion in OpenAI's format, calling onText with the
+ * reply so far as each piece arrives
+ */
+async function streamChatCompletion(
+  response: Response,
+  onText: (text: string) => void,
+): Promise<string> {
+  let text = "";
+  for await (const chunk of readEvents(response)) {
+    if (chunk.error) throw new Error(chunk.error.message);
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onText(text);
+    }
+  }
+  return text || "{}";
+}
+
+/**
+ * Chat completions request body in OpenAI's format
+ */
+function chatCompletionBody(request: AICompletionRequest, maxTokens: number) {
+  return {
+    messages: request.messages,
+    temperature: request.temperature,
+    max_completion_tokens: maxTokens,
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: request.schema.name,
+        strict: true,
+        schema: request.schema.schema,
+      },
+    },
+  };
+}
+
+/**
+ * Provider for OpenAI's chat completions API, or any server that speaks it
+ * (vLLM, llama.cpp, Ollama, LiteLLM, ...).
+ *
+ * @example
+ * ```ts
+ * // Model served on the local network
+ * const provider = createOpenAIProvider({
+ *   baseUrl: "http://llm.internal:8080/v1",
+ *   model: "qwen2.5-32b-instruct",
+ *   label: "Internal LLM",
+ * });
+ * <AIEditorProvider config={{ provider }}>...</AIEditorProvider>
+ * ```
+ */
+export function createOpenAIProvider(
+  options: OpenAIProviderOptions = {},
+): AIProvider {
+  const {
+    baseUrl = "https://api.openai.com/v1",
+    model = "gpt-5-mini",
+    maxTokens = 65536,
+    headers = {},
+    label = "OpenAI",
+  } = options;
+
+  const send = (request: AICompletionRequest, stream: boolean) => {
+    const apiKey = options.apiKey ?? request.apiKey;
+    return post(
+      `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        ...headers,
+      },
+      {
+        model: request.model ?? model,
+        ...chatCompletionBody(request, maxTokens),
+        ...(stream ? { stream: true } : {}),
+      },
+      request.signal,
+    );
+  };
+
+  return {
+    label,
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      return data.choices?.[0]?.message?.content || "{}";
+    },
+    async stream(request, onText) {
+      return streamChatCompletion(await send(request, true), onText);
+    },
+  };
+}
+
+/**
+ * Provider for an Azure OpenAI deployment. The model is the deployment's,
+ * so the request's model is ignored.
+ *
+ * @example
+ * ```ts
+ * const provider = createAzureOpenAIProvider({
+ *   endpoint: "https://contoso-legal.openai.azure.com",
+ *   deployment: "gpt-4o",
+ * });
+ * ```
+ */
+export function createAzureOpenAIProvider(
+  options: AzureOpenAIProviderOptions,
+): AIProvider {
+  const { endpoint, deployment, apiVersion = "2024-10-21" } = options;
+  const maxTokens = options.maxTokens ?? 65536;
+
+  const url =
+    `${endpoint.replace(/\/+$/, "")}/openai/deployments/` +
+    `${encodeURIComponent(deployment)}/chat/completions` +
+    `?api-version=${encodeURIComponent(apiVersion)}`;
+
+  const send = (request: AICompletionRequest, stream: boolean) => {
+    const apiKey = options.apiKey ?? request.apiKey;
+    return post(
+      url,
+      apiKey ? { "api-key": apiKey } : {},
+      {
+        ...chatCompletionBody(request, maxTokens),
+        ...(stream ? { stream: true } : {}),
+      },
+      request.signal,
+    );
+  };
+
+  return {
+    label: "Azure OpenAI",
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      return data.choices?.[0]?.message?.content || "{}";
+    },
+    async stream(request, onText) {
+      return streamChatCompletion(await send(request, true), onText);
+    },
+  };
+}
+
+/**
+ * Provider for Anthropic's Messages API. The reply schema is given to the
+ * model as the input of a tool it must call, and that input is the reply.
+ *
+ * @example
+ * ```ts
+ * const provider = createAnthropicProvider({ model: "claude-sonnet-4-5" });
+ * ```
+ */
+export function createAnthropicProvider(
+  options: AnthropicProviderOptions,
+): AIProvider {
+  const {
+    baseUrl = "https://api.anthropic.com/v1",
+    maxTokens = 16384,
+    headers = {},
+  } = options;
+
+  const send = (request: AICompletionRequest, stream: boolean) => {
+    const apiKey = options.apiKey ?? request.apiKey;
+    // System messages go in their own field
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const messages = request.messages.filter(
+      (message) => message.role !== "system",
+    );
+
+    return post(
+      `${baseUrl.replace(/\/+$/, "")}/messages`,
+      {
+        ...(apiKey ? { "x-api-key": apiKey } : {}),
+        "anthropic-version": "2023-06-01",
+        // The editor calls the API from the browser
+        "anthropic-dangerous-direct-browser-access": "true",
+        ...headers,
+      },
+      {
+        model: request.model ?? options.model,
+        max_tokens: maxTokens,
+        temperature: request.temperature,
+        system: system || undefined,
+        messages,
+        tools: [
+          {
+            name: request.schema.name,
+            description: "Reply to the user with this tool",
+            input_schema: request.schema.schema,
+          },
+        ],
+        tool_choice: { type: "tool", name: request.schema.name },
+        ...(stream ? { stream: true } : {}),
+      },
+      request.signal,
+    );
+  };
+
+  return {
+    label: "Anthropic",
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      const toolUse = data.content?.find(
+        (block: { type: string }) => block.type === "tool_use",
+      );
+      if (toolUse) return JSON.stringify(toolUse.input);
+      return (
+        data.content
+          ?.filter((block: { type: string }) => block.type === "text")
+          .map((block: { text: string }) => block.text)
+          .join("") || "{}"
+      );
+    },
+    async stream(request, onText) {
+      // The tool input arrives as pieces of JSON
+      let input = "";
+      let text = "";
+      for await (const event of readEvents(await send(request, true))) {
+        if (event.type === "error") throw new Error(event.error?.message);
+        if (event.type !== "content_block_delta") continue;
+        if (event.delta.type === "input_json_delta") {
+          input += event.delta.partial_json;
+          onText(input);
+        } else if (event.delta.type === "text_delta") {
+          text += event.delta.text;
+        }
+      }
+      return input || text || "{}";
+    },
+  };
+}
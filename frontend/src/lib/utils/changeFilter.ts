@@ -0,0 +1,43 @@
+import type { TrackedChange, TrackedChangeFilter } from "../types";
+
+function toTime(date: string | Date): number {
+  return (typeof date === "string" ? new Date(date) : date).getTime();
+}
+
+/**
+ * Check whether a tracked change matches a filter. A missing filter (or an
+ * empty criterion) matches everything; changes without a date never match
+ * a date range.
+ *
+ * @example
+ * ```ts
+ * const aiChanges = changes.filter((c) =>
+ *   matchesChangeFilter(c, { authors: ["AI Assistant"] }),
+ * );
+ * ```
+ */
+export function matchesChangeFilter(
+  change: Pick<TrackedChange, "type" | "author" | "date">,
+  filter: TrackedChangeFilter | null | undefined,
+): boolean {
+  if (!filter) return true;
+
+  const { authors, types, since, until } = filter;
+
+  if (authors?.length && !authors.includes(change.author ?? "")) {
+    return false;
+  }
+
+  if (types?.length && !types.includes(change.type)) {
+    return false;
+  }
+
+  if (since || until) {
+    if (!change.date) return false;
+    const time = toTime(change.date);
+    if (since && time < toTime(since)) return false;
+    if (until && time > toTime(until)) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,54 @@
+import type { TrackedChange, TrackedChangeGroup } from "../types";
+
+function isReplacementPair(a: TrackedChange, b: TrackedChange): boolean {
+  const types = new Set([a.type, b.type]);
+  return (
+    types.has("insertion") &&
+    types.has("deletion") &&
+    a.author === b.author &&
+    a.to === b.from
+  );
+}
+
+/**
+ * Group tracked changes for review. A deletion and an insertion by the same
+ * author that touch each other form one "replacement" group; every other
+ * change is a group of its own. Groups are returned in document order.
+ *
+ * @example
+ * ```ts
+ * const groups = groupTrackedChanges(editorRef.current.getChanges());
+ * // [{ type: "replacement", deletedText: "colour", insertedText: "color", ... }]
+ * ```
+ */
+export function groupTrackedChanges(
+  changes: TrackedChange[],
+): TrackedChangeGroup[] {
+  const sorted = [...changes].sort((a, b) => a.from - b.from);
+  const groups: TrackedChangeGroup[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const change = sorted[i];
+    const next = sorted[i + 1];
+    const members =
+      next && isReplacementPair(change, next) ? [change, next] : [change];
+    i += members.length - 1;
+
+    const deletion = members.find((c) => c.type === "deletion");
+    const insertion = members.find((c) => c.type === "insertion");
+
+    groups.push({
+      id: members[0].id,
+      type: members.length > 1 ? "replacement" : change.type,
+      author: change.author,
+      date: change.date,
+      deletedText: deletion?.text ?? "",
+      insertedText: insertion?.text ?? "",
+      from: members[0].from,
+      to: members[members.length - 1].to,
+      changeIds: members.map((c) => c.id),
+    });
+  }
+
+  return groups;
+}
@@ -0,0 +1,476 @@
+import { diffArrays, diffWords } from "diff";
+import { v4 as uuidv4 } from "uuid";
+import type { TipTapDocument, TipTapMark, TipTapNode } from "../types";
+
+export interface CompareDocumentsOptions {
+  /** Author recorded on the changes (default: "Unknown Author") */
+  author?: string;
+  /** Date recorded on the changes (default: now) */
+  date?: string;
+  /**
+   * How alike two blocks without matching IDs must be (0-1, shared words)
+   * to be diffed word by word rather than shown as deleted + inserted.
+   * Default: 0.5
+   */
+  similarityThreshold?: number;
+}
+
+interface CompareContext {
+  author: string;
+  date: string;
+  threshold: number;
+  /** Block IDs used in the original document */
+  originalIds: Set<string>;
+}
+
+/** Stand-in character for inline nodes that aren't text (e.g. hard breaks) */
+const INLINE_ATOM = "\uFFFC";
+
+/** Blocks whose content is inline text; these are diffed word by word */
+const TEXTBLOCK_TYPES = new Set(["paragraph", "heading"]);
+
+function generateChangeId(type: "ins" | "del" | "blk" | "mrg" | "tbl"): string {
+  return `${type}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isTextblock(node: TipTapNode): boolean {
+  return TEXTBLOCK_TYPES.has(node.type);
+}
+
+function changeMark(
+  type: "insertion" | "deletion",
+  ctx: CompareContext,
+): TipTapMark {
+  return {
+    type,
+    attrs: {
+      id: generateChangeId(type === "insertion" ? "ins" : "del"),
+      author: ctx.author,
+      date: ctx.date,
+    },
+  };
+}
+
+function changeInfo(ctx: CompareContext, type: "blk" | "mrg" | "tbl") {
+  return { id: generateChangeId(type), author: ctx.author, date: ctx.date };
+}
+
+function textContent(node: TipTapNode): string {
+  if (node.type === "text") return node.text ?? "";
+  return (node.content ?? []).map(textContent).join(" ");
+}
+
+/**
+ * IDs of a block and every block inside it
+ */
+function collectIds(node: TipTapNode, ids = new Set<string>()): Set<string> {
+  const id = node.attrs?.id;
+  if (typeof id === "string" && id) ids.add(id);
+  node.content?.forEach((child) => collectIds(child, ids));
+  return ids;
+}
+
+/**
+ * Share of words two blocks have in common (Jaccard index)
+ */
+function similarity(a: TipTapNode, b: TipTapNode): number {
+  const wordsA = new Set(textContent(a).toLowerCase().match(/\w+/g) ?? []);
+  const wordsB = new Set(textContent(b).toLowerCase().match(/\w+/g) ?? []);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Whether a revised block is certainly the same block as an original one:
+ * the same ID, unchanged text, or (for table rows) a cell paragraph with
+ * the same ID. These are paired before similar-looking blocks, so a row
+ * or paragraph added between near-identical ones isn't paired with its
+ * neighbour and every later one shifted along.
+ */
+function blocksMatch(a: TipTapNode, b: TipTapNode): boolean {
+  const idA = a.attrs?.id;
+  const idB = b.attrs?.id;
+  if (idA && idB) return idA === idB;
+  if (a.type !== b.type && !(isTextblock(a) && isTextblock(b))) return false;
+
+  if (a.type === "tableRow") {
+    const idsA = collectIds(a);
+    for (const id of collectIds(b)) {
+      if (idsA.has(id)) return true;
+    }
+  }
+  return textContent(a) === textContent(b);
+}
+
+/**
+ * Whether a revised block is an edited version of an original block: the
+ * same paragraph ID, or similar enough text in a compatible node. Tables,
+ * sections and lists of the same type are compared child by child.
+ */
+function blocksCorrespond(
+  a: TipTapNode,
+  b: TipTapNode,
+  ctx: CompareContext,
+): boolean {
+  const idA = a.attrs?.id;
+  const idB = b.attrs?.id;
+  if (idA && idB && idA === idB) return true;
+
+  if (isTextblock(a) && isTextblock(b)) {
+    return similarity(a, b) >= ctx.threshold;
+  }
+  if (a.type !== b.type) return false;
+
+  // Rows are inserted and deleted whole, so they need similar text
+  if (a.type === "tableRow") return similarity(a, b) >= ctx.threshold;
+  // Leaf blocks (rules, images) only match when unchanged
+  if (!a.content && !b.content) {
+    return JSON.stringify(a.attrs ?? {}) === JSON.stringify(b.attrs ?? {});
+  }
+  return true;
+}
+
+function inlineText(content: TipTapNode[]): string {
+  return content
+    .map((node) => (node.type === "text" ? (node.text ?? "") : INLINE_ATOM))
+    .join("");
+}
+
+/**
+ * Inline nodes covering characters [from, to) of the inline text
+ */
+function sliceInline(
+  content: TipTapNode[],
+  from: number,
+  to: number,
+): TipTapNode[] {
+  const result: TipTapNode[] = [];
+  let pos = 0;
+
+  for (const node of content) {
+    const length = node.type === "text" ? (node.text ?? "").length : 1;
+    const start = pos;
+    const end = pos + length;
+    pos = end;
+    if (end <= from || start >= to) continue;
+
+    if (node.type === "text") {
+      const text = (node.text ?? "").slice(
+        Math.max(from, start) - start,
+        Math.min(to, end) - start,
+      );
+      result.push({ ...node, text });
+    } else {
+      result.push(node);
+    }
+  }
+
+  return result;
+}
+
+function withMark(content: TipTapNode[], mark: TipTapMark): TipTapNode[] {
+  return content.map((node) => ({
+    ...node,
+    marks: [...(node.marks ?? []), mark],
+  }));
+}
+
+/**
+ * Word-level redline of a paragraph's inline content. Kept text takes the
+ * revised formatting.
+ */
+function diffInline(
+  oldContent: TipTapNode[],
+  newContent: TipTapNode[],
+  ctx: CompareContext,
+): TipTapNode[] {
+  const parts = diffWords(inlineText(oldContent), inlineText(newContent));
+  const result: TipTapNode[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+
+  for (const part of parts) {
+    const length = part.value.length;
+    if (part.added) {
+      const inserted = sliceInline(newContent, newPos, newPos + length);
+      result.push(...withMark(inserted, changeMark("insertion", ctx)));
+      newPos += length;
+    } else if (part.removed) {
+      const deleted = sliceInline(oldContent, oldPos, oldPos + length);
+      result.push(...withMark(deleted, changeMark("deletion", ctx)));
+      oldPos += length;
+    } else {
+      result.push(...sliceInline(newContent, newPos, newPos + length));
+      oldPos += length;
+      newPos += length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A copy of a block whose IDs are new wherever the original document
+ * already uses them. A block moved with its ID shows as deleted where it
+ * was and inserted where it is, and the two copies can't share an ID.
+ */
+function withFreshIds(node: TipTapNode, ctx: CompareContext): TipTapNode {
+  const id = node.attrs?.id;
+  const reused = typeof id === "string" && ctx.originalIds.has(id);
+  return {
+    ...node,
+    ...(reused && { attrs: { ...node.attrs, id: uuidv4() } }),
+    ...(node.content && {
+      content: node.content.map((child) => withFreshIds(child, ctx)),
+    }),
+  };
+}
+
+/**
+ * A block that only exists in the revised document. Rejecting it removes
+ * its text and joins it back into the previous block.
+ */
+function markInserted(node: TipTapNode, ctx: CompareContext): TipTapNode {
+  return markInsertedBlock(withFreshIds(node, ctx), ctx);
+}
+
+function markInsertedBlock(node: TipTapNode, ctx: CompareContext): TipTapNode {
+  if (isTextblock(node)) {
+    return {
+      ...node,
+      attrs: { ...node.attrs, trackedInsertBlock: changeInfo(ctx, "blk") },
+      ...(node.content && {
+        content: withMark(node.content, changeMark("insertion", ctx)),
+      }),
+    };
+  }
+  if (node.type === "tableRow") {
+    return {
+      ...node,
+      attrs: { ...node.attrs, trackedInsert: changeInfo(ctx, "tbl") },
+    };
+  }
+  if (node.content) {
+    return {
+      ...node,
+      content: node.content.map((child) => markInsertedBlock(child, ctx)),
+    };
+  }
+  return node;
+}
+
+/**
+ * A block that only exists in the original document. Accepting it removes
+ * its text and merges what's left into the previous block.
+ */
+function markDeleted(node: TipTapNode, ctx: CompareContext): TipTapNode {
+  if (isTextblock(node)) {
+    return {
+      ...node,
+      attrs: { ...node.attrs, trackedMergeFrom: changeInfo(ctx, "mrg") },
+      ...(node.content && {
+        content: withMark(node.content, changeMark("deletion", ctx)),
+      }),
+    };
+  }
+  if (node.type === "tableRow") {
+    return {
+      ...node,
+      attrs: { ...node.attrs, trackedDelete: changeInfo(ctx, "tbl") },
+    };
+  }
+  if (node.content) {
+    return {
+      ...node,
+      content: node.content.map((child) => markDeleted(child, ctx)),
+    };
+  }
+  return node;
+}
+
+/**
+ * Redline of a revised block against the original block it corresponds to
+ */
+function compareBlock(
+  a: TipTapNode,
+  b: TipTapNode,
+  ctx: CompareContext,
+): TipTapNode {
+  if (isTextblock(a) && isTextblock(b)) {
+    const content = diffInline(a.content ?? [], b.content ?? [], ctx);
+    const node: TipTapNode = { ...b };
+    if (content.length > 0) {
+      node.content = content;
+    } else {
+      delete node.content;
+    }
+
+    // Paragraph <-> heading, or a new heading level
+    if (
+      a.type !== b.type ||
+      (a.attrs?.level ?? null) !== (b.attrs?.level ?? null)
+    ) {
+      node.attrs = {
+        ...b.attrs,
+        trackedTypeChange: {
+          ...changeInfo(ctx, "blk"),
+          previousType: a.type,
+          previousAttrs: a.attrs ?? {},
+        },
+      };
+    }
+    return node;
+  }
+
+  // Cells of a row line up by column
+  const oldCells = a.content ?? [];
+  const newCells = b.content ?? [];
+  if (b.type === "tableRow" && oldCells.length === newCells.length) {
+    return {
+      ...b,
+      content: newCells.map((cell, i) => compareBlock(oldCells[i], cell, ctx)),
+    };
+  }
+
+  if (b.content) {
+    return { ...b, content: compareBlocks(a.content ?? [], b.content, ctx) };
+  }
+  return b;
+}
+
+/**
+ * Redline of two lists of blocks. Blocks that certainly match are paired
+ * first; between them, blocks are paired by `blocksCorrespond`.
+ */
+function compareBlocks(
+  oldBlocks: TipTapNode[],
+  newBlocks: TipTapNode[],
+  ctx: CompareContext,
+): TipTapNode[] {
+  const parts = diffArrays(oldBlocks, newBlocks, { comparator: blocksMatch });
+  const result: TipTapNode[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let unmatchedOld = 0;
+  let unmatchedNew = 0;
+
+  // Blocks since the last match, paired up loosely
+  const compareUnmatched = () => {
+    result.push(
+      ...compareCorresponding(
+        oldBlocks.slice(oldIndex, oldIndex + unmatchedOld),
+        newBlocks.slice(newIndex, newIndex + unmatchedNew),
+        ctx,
+      ),
+    );
+    oldIndex += unmatchedOld;
+    newIndex += unmatchedNew;
+    unmatchedOld = 0;
+    unmatchedNew = 0;
+  };
+
+  for (const part of parts) {
+    const count = part.count ?? part.value.length;
+    if (part.added) {
+      unmatchedNew += count;
+      continue;
+    }
+    if (part.removed) {
+      unmatchedOld += count;
+      continue;
+    }
+
+    compareUnmatched();
+    for (let i = 0; i < count; i++) {
+      result.push(
+        compareBlock(oldBlocks[oldIndex + i], newBlocks[newIndex + i], ctx),
+      );
+    }
+    oldIndex += count;
+    newIndex += count;
+  }
+  compareUnmatched();
+
+  return result;
+}
+
+function compareCorresponding(
+  oldBlocks: TipTapNode[],
+  newBlocks: TipTapNode[],
+  ctx: CompareContext,
+): TipTapNode[] {
+  if (oldBlocks.length === 0 && newBlocks.length === 0) return [];
+  const parts = diffArrays(oldBlocks, newBlocks, {
+    comparator: (a, b) => blocksCorrespond(a, b, ctx),
+  });
+  const result: TipTapNode[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  for (const part of parts) {
+    const count = part.count ?? part.value.length;
+    if (part.added) {
+      for (const node of newBlocks.slice(newIndex, newIndex + count)) {
+        result.push(markInserted(node, ctx));
+      }
+      newIndex += count;
+    } else if (part.removed) {
+      for (const node of oldBlocks.slice(oldIndex, oldIndex + count)) {
+        result.push(markDeleted(node, ctx));
+      }
+      oldIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        result.push(
+          compareBlock(oldBlocks[oldIndex + i], newBlocks[newIndex + i], ctx),
+        );
+      }
+      oldIndex += count;
+      newIndex += count;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Produce a redline of two versions of a document: the revised document
+ * with tracked changes recording how it differs from the original.
+ *
+ * Blocks are paired up by paragraph ID where both versions have one, and by
+ * shared words otherwise. A block moved with its ID shows as deleted from its
+ * old place and inserted, with a new ID, in its new one. Paired paragraphs and
+ * headings are diffed word by word (including paragraph <-> heading changes);
+ * tables are compared row by row, sections and lists block by block. Unpaired
+ * blocks become whole-block insertions/deletions.
+ *
+ * @example
+ * ```ts
+ * const redline = compareDocuments(ourDraft, theirDraft, {
+ *   author: "Opposing Counsel",
+ * });
+ * editorRef.current?.setContent(redline);
+ * ```
+ */
+export function compareDocuments(
+  original: TipTapDocument,
+  revised: TipTapDocument,
+  options: CompareDocumentsOptions = {},
+): TipTapDocument {
+  const ctx: CompareContext = {
+    author: options.author ?? "Unknown Author",
+    date: options.date ?? new Date().toISOString(),
+    threshold: options.similarityThreshold ?? 0.5,
+    originalIds: collectIds(original),
+  };
+
+  return {
+    ...revised,
+    content: compareBlocks(original.content ?? [], revised.content ?? [], ctx),
+  };
+}
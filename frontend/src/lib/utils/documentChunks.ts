@@ -0,0 +1,207 @@
+import type { Node as PMNode } from "@tiptap/pm/model";
+
+export interface DocumentChunkOptions {
+  /** Most tokens of paragraph text in a chunk (default: 12000) */
+  maxTokens?: number;
+  /**
+   * Where chunks may end: "section" keeps each section (or the paragraphs
+   * under a heading) whole unless it alone is over the budget; "tokens"
+   * fills every chunk up to the budget (default: "section")
+   */
+  splitBy?: "section" | "tokens";
+}
+
+/**
+ * Part of a document small enough to send to a model in one request
+ */
+export interface DocumentChunk {
+  /** IDs of the chunk's paragraphs, in document order */
+  paragraphIds: string[];
+  /** Heading the chunk starts under, if any */
+  title: string;
+}
+
+interface ChunkParagraph {
+  id: string;
+  tokens: number;
+  /** Section or heading the paragraph belongs to */
+  group: string;
+  title: string;
+}
+
+export const DEFAULT_CHUNK_TOKENS = 12000;
+
+/**
+ * Rough token count of text for budgeting (about four characters a token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The document's paragraphs with IDs, each with the section or heading it
+ * comes under: its innermost Section node and the last heading before it
+ */
+function getChunkParagraphs(doc: PMNode): ChunkParagraph[] {
+  const paragraphs: ChunkParagraph[] = [];
+  let headingPos = -1;
+  let title = "";
+
+  doc.descendants((node, pos) => {
+    if (node.type.name === "heading") {
+      headingPos = pos;
+      title = node.textContent.trim();
+      return false;
+    }
+    if (node.type.name !== "paragraph") return true;
+    if (!node.attrs.id) return false;
+
+    const $pos = doc.resolve(pos);
+    let sectionPos = -1;
+    for (let depth = $pos.depth; depth > 0; depth--) {
+      if ($pos.node(depth).type.name === "section") {
+        sectionPos = $pos.before(depth);
+        break;
+      }
+    }
+
+    paragraphs.push({
+      id: node.attrs.id,
+      tokens: estimateTokens(node.textContent),
+      group: `${sectionPos}:${headingPos}`,
+      title,
+    });
+    return false;
+  });
+
+  return paragraphs;
+}
+
+/**
+ * Split a document's paragraphs into chunks that each fit a token budget,
+ * for documents too large to send to a model at once. By default chunks
+ * end at section and heading boundaries; a section too large for one chunk
+ * is split between paragraphs.
+ *
+ * @example
+ * ```ts
+ * const chunks = getDocumentChunks(editor.state.doc, { maxTokens: 8000 });
+ * for (const chunk of chunks) {
+ *   await reviewParagraphs(chunk.paragraphIds);
+ * }
+ * ```
+ */
+export function getDocumentChunks(
+  doc: PMNode,
+  options: DocumentChunkOptions = {},
+): DocumentChunk[] {
+  const { maxTokens = DEFAULT_CHUNK_TOKENS, splitBy = "section" } = options;
+  const paragraphs = getChunkParagraphs(doc);
+
+  // Runs of paragraphs that should stay together
+  const groups: ChunkParagraph[][] = [];
+  paragraphs.forEach((paragraph, i) => {
+    if (
+      splitBy === "section" &&
+      i > 0 &&
+      paragraphs[i - 1].group === paragraph.group
+    ) {
+      groups[groups.length - 1].push(paragraph);
+    } else {
+      groups.push([paragraph]);
+    }
+  });
+
+  const chunks: DocumentChunk[] = [];
+  let current: ChunkParagraph[] = [];
+  let tokens = 0;
+  const endChunk = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      paragraphIds: current.map((p) => p.id),
+      title: current[0].title,
+    });
+    current = [];
+    tokens = 0;
+  };
+
+  for (const group of groups) {
+    const groupTokens = group.reduce((sum, p) => sum + p.tokens, 0);
+    if (tokens + groupTokens > maxTokens) endChunk();
+
+    // Too large for any chunk: split between its paragraphs
+    for (const paragraph of group) {
+      if (current.length > 0 && tokens + paragraph.tokens > maxTokens) {
+        endChunk();
+      }
+      current.push(paragraph);
+      tokens += paragraph.tokens;
+    }
+  }
+  endChunk();
+
+  return chunks;
+}
+
+/**
+ * The paragraphs a selection touches and as many around them as fit the
+ * token budget, nearest first
+ */
+export function getSelectionNeighbourhood(
+  doc: PMNode,
+  from: number,
+  to: number,
+  maxTokens = DEFAULT_CHUNK_TOKENS,
+): DocumentChunk {
+  const paragraphs = getChunkParagraphs(doc);
+  const selected = new Set<string>();
+  doc.nodesBetween(from, to, (node) => {
+    if (node.type.name === "paragraph" && node.attrs.id) {
+      selected.add(node.attrs.id);
+    }
+  });
+
+  const indexes = paragraphs.flatMap((p, i) => (selected.has(p.id) ? [i] : []));
+  if (indexes.length === 0) return { paragraphIds: [], title: "" };
+
+  let start = indexes[0];
+  let end = indexes[indexes.length - 1];
+  let tokens = paragraphs
+    .slice(start, end + 1)
+    .reduce((sum, p) => sum + p.tokens, 0);
+
+  // Widen alternately before and after until the budget is used up
+  for (let grew = true; grew;) {
+    grew = false;
+    for (const i of [start - 1, end + 1]) {
+      const paragraph = paragraphs[i];
+      if (!paragraph || tokens + paragraph.tokens > maxTokens) continue;
+      tokens += paragraph.tokens;
+      if (i < start) start = i;
+      else end = i;
+      grew = true;
+    }
+  }
+
+  return {
+    paragraphIds: paragraphs.slice(start, end + 1).map((p) => p.id),
+    title: paragraphs[start].title,
+  };
+}
+
+/**
+ * The document's headings as an indented list, to give a model the shape
+ * of a document it only sees part of
+ */
+export function getDocumentOutline(doc: PMNode): string {
+  const lines: string[] = [];
+  doc.descendants((node) => {
+    if (node.type.name !== "heading") return true;
+    const text = node.textContent.trim();
+    if (text) {
+      lines.push(`${"  ".repeat((node.attrs.level ?? 1) - 1)}- ${text}`);
+    }
+    return false;
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,183 @@
+import type {
+  ChangeViewMode,
+  TipTapDocument,
+  TipTapMark,
+  TipTapNode,
+} from "../types";
+import { NON_FORMATTING_MARKS } from "../../extensions/FormatChange";
+
+/** Text marks whose text exists only in the final / original document */
+const FINAL_ONLY_MARKS = new Set(["insertion", "moveTo"]);
+const ORIGINAL_ONLY_MARKS = new Set(["deletion", "moveFrom"]);
+
+/** Revision marks and attributes that disappear once changes are resolved */
+const REVISION_MARKS = new Set([
+  "insertion",
+  "deletion",
+  "formatChange",
+  "moveFrom",
+  "moveTo",
+]);
+const REVISION_ATTRIBUTES = [
+  "trackedInsertBlock",
+  "trackedMergeFrom",
+  "trackedTypeChange",
+  "trackedInsert",
+  "trackedDelete",
+];
+
+type ResolvedView = "final" | "original";
+
+function clearRevisionAttrs(
+  attrs: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  if (!attrs) return attrs;
+  const result = { ...attrs };
+  for (const name of REVISION_ATTRIBUTES) {
+    if (name in result) result[name] = null;
+  }
+  return result;
+}
+
+/**
+ * Marks of a text node once its revisions are resolved. Rejecting a format
+ * change restores the formatting recorded before it.
+ */
+function resolveMarks(
+  marks: TipTapMark[] | undefined,
+  view: ResolvedView,
+): TipTapMark[] | undefined {
+  if (!marks) return marks;
+
+  const formatChange = marks.find((m) => m.type === "formatChange");
+  let result = marks;
+  if (view === "original" && formatChange) {
+    const previous = (formatChange.attrs?.previousMarks ?? []) as TipTapMark[];
+    result = [
+      ...marks.filter((m) => NON_FORMATTING_MARKS.has(m.type)),
+      ...previous,
+    ];
+  }
+
+  result = result.filter((m) => !REVISION_MARKS.has(m.type));
+  return result.length > 0 ? result : undefined;
+}
+
+/**
+ * Whether a node only exists on the other side of its revisions
+ */
+function isRemoved(node: TipTapNode, view: ResolvedView): boolean {
+  if (node.type === "text") {
+    const removed = view === "final" ? ORIGINAL_ONLY_MARKS : FINAL_ONLY_MARKS;
+    return !!node.marks?.some((m) => removed.has(m.type));
+  }
+  // Table rows and column cells
+  return !!node.attrs?.[view === "final" ? "trackedDelete" : "trackedInsert"];
+}
+
+/**
+ * Whether a block joins the block before it in this view: an accepted
+ * merge, or a rejected split
+ */
+function joinsPrevious(node: TipTapNode, view: ResolvedView): boolean {
+  return !!node.attrs?.[
+    view === "final" ? "trackedMergeFrom" : "trackedInsertBlock"
+  ];
+}
+
+function resolveNode(node: TipTapNode, view: ResolvedView): TipTapNode[] {
+  if (node.type === "text") {
+    const { marks, ...rest } = node;
+    const resolvedMarks = resolveMarks(marks, view);
+    return [resolvedMarks ? { ...rest, marks: resolvedMarks } : rest];
+  }
+
+  let resolved: TipTapNode = {
+    ...node,
+    attrs: clearRevisionAttrs(node.attrs),
+  };
+
+  if (view === "original" && node.attrs?.trackedTypeChange) {
+    const info = node.attrs.trackedTypeChange as {
+      previousType: string;
+      previousAttrs: Record<string, unknown>;
+    };
+    resolved = {
+      ...resolved,
+      type: info.previousType,
+      attrs: clearRevisionAttrs({ ...info.previousAttrs }),
+    };
+  }
+
+  if (node.content) {
+    resolved.content = resolveContent(node.content, view);
+  }
+
+  // A rejected wrapper (e.g. an inserted section) gives way to its content
+  if (
+    view === "original" &&
+    node.attrs?.trackedInsertBlock &&
+    !isTextblock(node)
+  ) {
+    return resolved.content ?? [];
+  }
+
+  return [resolved];
+}
+
+function isTextblock(node: TipTapNode): boolean {
+  return (
+    node.type === "paragraph" ||
+    node.type === "heading" ||
+    !!node.content?.some((child) => child.type === "text")
+  );
+}
+
+function resolveContent(
+  content: TipTapNode[],
+  view: ResolvedView,
+): TipTapNode[] {
+  const result: TipTapNode[] = [];
+
+  for (const child of content) {
+    if (isRemoved(child, view)) continue;
+
+    const previous = result[result.length - 1];
+    const join =
+      joinsPrevious(child, view) &&
+      isTextblock(child) &&
+      previous &&
+      isTextblock(previous);
+
+    const nodes = resolveNode(child, view);
+    if (join) {
+      // Fold the block into the one before it
+      previous.content = [
+        ...(previous.content ?? []),
+        ...nodes.flatMap((node) => node.content ?? []),
+      ];
+    } else {
+      result.push(...nodes);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The document as it would look in a review view, without touching the
+ * editor: "final" accepts every tracked change, "original" rejects every
+ * tracked change, and the markup views return the document unchanged.
+ *
+ * @example
+ * ```ts
+ * const clean = getDocumentView(editor.getJSON() as TipTapDocument, "final");
+ * ```
+ */
+export function getDocumentView(
+  doc: TipTapDocument,
+  view: ChangeViewMode,
+): TipTapDocument {
+  if (view !== "final" && view !== "original") return doc;
+  return { ...doc, content: resolveContent(doc.content ?? [], view) };
+}
@@ -3,3 +3,41 @@ export {
   downloadBlob,
   exportToWord,
 } from "./createExportPayload";
+export { groupTrackedChanges } from "./changeGroups";
+export { matchesChangeFilter } from "./changeFilter";
+export { getDocumentView } from "./documentView";
+export { getChangeStats } from "./changeStats";
+export { compareDocuments } from "./compareDocuments";
+export type { CompareDocumentsOptions } from "./compareDocuments";
+export { mergeDocuments } from "./mergeDocuments";
+export type { MergeDocumentsOptions } from "./mergeDocuments";
+export {
+  createIndexedDBVersionStorage,
+  createMemoryVersionStorage,
+} from "./versionStorage";
+export {
+  parseMentions,
+  getMentionedUsers,
+  getMentionQuery,
+  createUserDirectory,
+} from "./mentions";
+export type { MentionMatch } from "./mentions";
+export {
+  createOpenAIProvider,
+  createAzureOpenAIProvider,
+  createAnthropicProvider,
+} from "./aiProviders";
+export type {
+  OpenAIProviderOptions,
+  AzureOpenAIProviderOptions,
+  AnthropicProviderOptions,
+} from "./aiProviders";
+export { parsePartialJSON } from "./partialJSON";
+export type { PartialJSONObject } from "./partialJSON";
+export {
+  getDocumentChunks,
+  getSelectionNeighbourhood,
+  getDocumentOutline,
+  estimateTokens,
+} from "./documentChunks";
+export type { DocumentChunk, DocumentChunkOptions } from "./documentChunks";
@@ -0,0 +1,104 @@
+import type { CommentUser, UserDirectory } from "../types";
+
+export interface MentionMatch {
+  /** Person mentioned */
+  user: CommentUser;
+  /** Offset of the "@" in the text */
+  from: number;
+  /** Offset just past the handle */
+  to: number;
+}
+
+/**
+ * "@handle" not preceded by a word character (so e-mail addresses don't
+ * count). A trailing "." or "-" ends the sentence, not the handle.
+ */
+const MENTION_PATTERN = /(^|[^\w@])@(\w(?:[\w.-]*\w)?)/g;
+
+/**
+ * Find the @mentions in comment text that refer to someone in the directory.
+ * Handles the directory doesn't know are left as plain text.
+ */
+export function parseMentions(
+  text: string,
+  users: UserDirectory,
+): MentionMatch[] {
+  const matches: MentionMatch[] = [];
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const user = users.resolve(match[2]);
+    if (!user) continue;
+
+    const from = (match.index ?? 0) + match[1].length;
+    matches.push({ user, from, to: from + 1 + match[2].length });
+  }
+
+  return matches;
+}
+
+/**
+ * Everyone @mentioned in comment text, once each
+ */
+export function getMentionedUsers(
+  text: string,
+  users: UserDirectory,
+): CommentUser[] {
+  const byId = new Map<string, CommentUser>();
+  for (const { user } of parseMentions(text, users)) {
+    byId.set(user.id, user);
+  }
+  return [...byId.values()];
+}
+
+/**
+ * The mention being typed just before the caret, if any: the partial handle
+ * and where its "@" is
+ */
+export function getMentionQuery(
+  text: string,
+  caret: number,
+): { query: string; from: number } | null {
+  const match = /(^|[^\w@])@([\w.-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], from: match.index + match[1].length };
+}
+
+/**
+ * User directory over a fixed list of people. A mention may use a person's
+ * ID or their name without spaces, in any case ("@jdoe", "@JaneDoe").
+ *
+ * @example
+ * ```ts
+ * const users = createUserDirectory([
+ *   { id: "jdoe", name: "Jane Doe" },
+ *   { id: "rlee", name: "Robin Lee" },
+ * ]);
+ * users.resolve("JaneDoe"); // { id: "jdoe", name: "Jane Doe" }
+ * ```
+ */
+export function createUserDirectory(people: CommentUser[]): UserDirectory {
+  const compact = (value: string) => value.replace(/\s+/g, "").toLowerCase();
+
+  return {
+    search: (query) => {
+      const q = query.toLowerCase();
+      return people.filter(
+        (person) =>
+          person.id.toLowerCase().startsWith(q) ||
+          person.name
+            .toLowerCase()
+            .split(/\s+/)
+            .some((word) => word.startsWith(q)),
+      );
+    },
+    resolve: (handle) => {
+      const key = compact(handle);
+      return (
+        people.find(
+          (person) =>
+            person.id.toLowerCase() === key || compact(person.name) === key,
+        ) ?? null
+      );
+    },
+  };
+}
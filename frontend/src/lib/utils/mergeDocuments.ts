@@ -0,0 +1,287 @@
+import { diffArrays } from "diff";
+import type { TipTapDocument, TipTapNode } from "../types";
+import { compareDocuments } from "./compareDocuments";
+
+export interface MergeDocumentsOptions {
+  /** Author recorded on our edits (default: "Ours") */
+  oursAuthor?: string;
+  /** Author recorded on their edits (default: "Theirs") */
+  theirsAuthor?: string;
+  /** Date recorded on the changes (default: now) */
+  date?: string;
+}
+
+interface MergeContext {
+  oursAuthor: string;
+  theirsAuthor: string;
+  date: string;
+}
+
+/** Blocks whose content is inline text; edits to these can't be merged */
+const TEXTBLOCK_TYPES = new Set(["paragraph", "heading"]);
+
+function generateConflictId(): string {
+  return `conflict-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function sameNode(a: TipTapNode, b: TipTapNode): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+interface KeyedBlocks {
+  keys: string[];
+  byKey: Map<string, TipTapNode>;
+}
+
+/** IDs of a node's descendants (the paragraphs in a row's cells) */
+function collectIds(node: TipTapNode, ids = new Set<string>()): Set<string> {
+  node.content?.forEach((child) => {
+    const id = child.attrs?.id;
+    if (typeof id === "string" && id) ids.add(id);
+    collectIds(child, ids);
+  });
+  return ids;
+}
+
+/**
+ * Key of the block in `base` that a block without an ID was edited from:
+ * one of the same type holding a paragraph with the same ID (how table
+ * rows and cells are matched)
+ */
+function matchingBaseKey(
+  block: TipTapNode,
+  base: KeyedBlocks,
+  taken: Map<string, TipTapNode>,
+): string | undefined {
+  const ids = collectIds(block);
+  if (ids.size === 0) return undefined;
+  return base.keys.find((key) => {
+    const candidate = base.byKey.get(key);
+    if (taken.has(key) || candidate?.type !== block.type) return false;
+    if (candidate.attrs?.id) return false;
+    return [...collectIds(candidate)].some((id) => ids.has(id));
+  });
+}
+
+/**
+ * Key blocks by ID (by content for blocks without one), numbering repeats
+ * so every key is unique. With `base`, a block without an ID takes the key
+ * of the base block it was edited from, if one is found.
+ */
+function keyBlocks(blocks: TipTapNode[], base?: KeyedBlocks): KeyedBlocks {
+  const keys: string[] = [];
+  const byKey = new Map<string, TipTapNode>();
+  const seen = new Map<string, number>();
+
+  for (const block of blocks) {
+    const id = block.attrs?.id;
+    let key = base && !id ? matchingBaseKey(block, base, byKey) : undefined;
+
+    if (!key) {
+      const prefix = id ? `id:${id}` : `content:${JSON.stringify(block)}`;
+      let count = seen.get(prefix) ?? 0;
+      do {
+        key = count ? `${prefix}#${count}` : prefix;
+        count++;
+      } while (byKey.has(key));
+      seen.set(prefix, count);
+    }
+
+    keys.push(key);
+    byKey.set(key, block);
+  }
+
+  return { keys, byKey };
+}
+
+/**
+ * Order of the merged blocks: the base blocks with our additions in place,
+ * then their additions after the block they follow in their copy
+ */
+function mergeOrder(
+  baseKeys: string[],
+  oursKeys: string[],
+  theirsKeys: string[],
+): string[] {
+  // Every part (kept, removed or added) in document order
+  const order = diffArrays(baseKeys, oursKeys).flatMap((part) => part.value);
+  const known = new Set(order);
+
+  let anchor: string | null = null;
+  for (const key of theirsKeys) {
+    if (!known.has(key)) {
+      const index = anchor === null ? 0 : order.indexOf(anchor) + 1;
+      order.splice(index, 0, key);
+      known.add(key);
+    }
+    anchor = key;
+  }
+
+  return order;
+}
+
+/**
+ * Tracked changes turning `from` into `to` (either may be missing)
+ */
+function redline(
+  from: TipTapNode | undefined,
+  to: TipTapNode | undefined,
+  author: string,
+  ctx: MergeContext,
+): TipTapNode[] {
+  const result = compareDocuments(
+    { type: "doc", content: from ? [from] : [] },
+    { type: "doc", content: to ? [to] : [] },
+    { author, date: ctx.date },
+  );
+  return result.content ?? [];
+}
+
+function conflict(
+  base: TipTapNode | undefined,
+  ours: TipTapNode | undefined,
+  theirs: TipTapNode | undefined,
+  ctx: MergeContext,
+): TipTapNode {
+  return {
+    type: "conflict",
+    attrs: { id: generateConflictId() },
+    content: [
+      {
+        type: "conflictVersion",
+        attrs: { side: "ours", author: ctx.oursAuthor },
+        content: redline(base, ours, ctx.oursAuthor, ctx),
+      },
+      {
+        type: "conflictVersion",
+        attrs: { side: "theirs", author: ctx.theirsAuthor },
+        content: redline(base, theirs, ctx.theirsAuthor, ctx),
+      },
+    ],
+  };
+}
+
+function mergeBlock(
+  base: TipTapNode | undefined,
+  ours: TipTapNode | undefined,
+  theirs: TipTapNode | undefined,
+  ctx: MergeContext,
+): TipTapNode[] {
+  // Added in one copy, or in both
+  if (!base) {
+    if (ours && theirs && !sameNode(ours, theirs)) {
+      return [conflict(undefined, ours, theirs, ctx)];
+    }
+    return ours
+      ? redline(undefined, ours, ctx.oursAuthor, ctx)
+      : redline(undefined, theirs, ctx.theirsAuthor, ctx);
+  }
+
+  const oursChanged = !ours || !sameNode(base, ours);
+  const theirsChanged = !theirs || !sameNode(base, theirs);
+
+  if (!oursChanged && !theirsChanged) return [base];
+  if (!theirsChanged) return redline(base, ours, ctx.oursAuthor, ctx);
+  if (!oursChanged) return redline(base, theirs, ctx.theirsAuthor, ctx);
+
+  // Both made the same edit (or both deleted the block)
+  if (!ours && !theirs) return redline(base, undefined, ctx.oursAuthor, ctx);
+  if (ours && theirs && sameNode(ours, theirs)) {
+    return redline(base, ours, ctx.oursAuthor, ctx);
+  }
+
+  // Both edited inside the same section/table/row/cell: merge its children
+  if (
+    ours &&
+    theirs &&
+    base.content &&
+    !TEXTBLOCK_TYPES.has(base.type) &&
+    ours.type === base.type &&
+    theirs.type === base.type
+  ) {
+    const oursAttrsChanged =
+      JSON.stringify(ours.attrs ?? {}) !== JSON.stringify(base.attrs ?? {});
+    return [
+      {
+        ...base,
+        attrs: oursAttrsChanged ? ours.attrs : theirs.attrs,
+        content: mergeBlocks(
+          base.content,
+          ours.content ?? [],
+          theirs.content ?? [],
+          ctx,
+        ),
+      },
+    ];
+  }
+
+  return [conflict(base, ours, theirs, ctx)];
+}
+
+function mergeBlocks(
+  base: TipTapNode[],
+  ours: TipTapNode[],
+  theirs: TipTapNode[],
+  ctx: MergeContext,
+): TipTapNode[] {
+  const baseBlocks = keyBlocks(base);
+  const oursBlocks = keyBlocks(ours, baseBlocks);
+  const theirsBlocks = keyBlocks(theirs, baseBlocks);
+
+  return mergeOrder(
+    baseBlocks.keys,
+    oursBlocks.keys,
+    theirsBlocks.keys,
+  ).flatMap((key) =>
+    mergeBlock(
+      baseBlocks.byKey.get(key),
+      oursBlocks.byKey.get(key),
+      theirsBlocks.byKey.get(key),
+      ctx,
+    ),
+  );
+}
+
+/**
+ * Three-way merge of two copies of a document edited separately from a
+ * common ancestor. Each copy's edits become tracked changes by its author.
+ *
+ * Blocks are matched across the three documents by paragraph/table/section
+ * ID, and table rows and cells by the IDs of the paragraphs in them. A
+ * block edited in only one copy gets that copy's changes; a block edited
+ * differently in both (or edited in one and deleted in the other) becomes
+ * a `conflict` node holding both versions, to be settled with
+ * `editor.commands.resolveConflict(id, "ours" | "theirs")`. Sections,
+ * tables, rows and cells edited in both copies are merged block by block.
+ *
+ * @example
+ * ```ts
+ * const merged = mergeDocuments(lastSent, ourDraft, theirDraft, {
+ *   oursAuthor: "Our Team",
+ *   theirsAuthor: "Opposing Counsel",
+ * });
+ * editorRef.current?.setContent(merged);
+ * ```
+ */
+export function mergeDocuments(
+  base: TipTapDocument,
+  ours: TipTapDocument,
+  theirs: TipTapDocument,
+  options: MergeDocumentsOptions = {},
+): TipTapDocument {
+  const ctx: MergeContext = {
+    oursAuthor: options.oursAuthor ?? "Ours",
+    theirsAuthor: options.theirsAuthor ?? "Theirs",
+    date: options.date ?? new Date().toISOString(),
+  };
+
+  return {
+    ...ours,
+    content: mergeBlocks(
+      base.content ?? [],
+      ours.content ?? [],
+      theirs.content ?? [],
+      ctx,
+    ),
+  };
+}
@@ -0,0 +1,112 @@
+export interface PartialJSONObject {
+  /** String fields of the object, as far as they've been received */
+  strings: Record<string, string>;
+  /** Array fields of the object: the elements received in full */
+  items: Record<string, unknown[]>;
+}
+
+/**
+ * Decode the contents of a JSON string that may have been cut off, dropping
+ * an escape sequence that isn't complete yet
+ */
+function decodePartialString(raw: string): string {
+  // An odd number of trailing backslashes ends in an unfinished escape
+  const match = /(\\+)(u[0-9a-fA-F]{0,3})?$/.exec(raw);
+  const complete =
+    match && match[1].length % 2 === 1
+      ? raw.slice(0, match.index + match[1].length - 1)
+      : raw;
+  try {
+    return JSON.parse(`"${complete}"`);
+  } catch {
+    return complete;
+  }
+}
+
+/**
+ * Read what has arrived so far of a JSON object being streamed, e.g. a
+ * model's reply: its string fields (the last one possibly cut off) and the
+ * complete elements of its array fields. Nested values are only read as
+ * array elements, once they're complete.
+ *
+ * @example
+ * ```ts
+ * parsePartialJSON('{"message": "Fixed the da');
+ * // { strings: { message: "Fixed the da" }, items: {} }
+ * parsePartialJSON('{"message": "Done", "edits": [{"paragraphId": "a"}, {"par');
+ * // { strings: { message: "Done" }, items: { edits: [{ paragraphId: "a" }] } }
+ * ```
+ */
+export function parsePartialJSON(text: string): PartialJSONObject {
+  const result: PartialJSONObject = { strings: {}, items: {} };
+  const stack: string[] = [];
+  let key: string | null = null;
+  let afterColon = false;
+  let stringStart = -1;
+  let escaped = false;
+  let elementStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (stringStart >= 0) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        // Only the object's own keys and string fields matter
+        if (stack.length === 1) {
+          const value = decodePartialString(text.slice(stringStart + 1, i));
+          if (afterColon && key !== null) {
+            result.strings[key] = value;
+          } else {
+            key = value;
+          }
+        }
+        stringStart = -1;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        stringStart = i;
+        break;
+      case ":":
+        if (stack.length === 1) afterColon = true;
+        break;
+      case ",":
+        if (stack.length === 1) afterColon = false;
+        break;
+      case "{":
+      case "[":
+        // An element of one of the object's arrays starts
+        if (stack.length === 2 && stack[1] === "[") elementStart = i;
+        stack.push(char);
+        if (stack.length === 2 && char === "[" && key !== null) {
+          result.items[key] = [];
+        }
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        if (stack.length === 2 && elementStart >= 0 && key !== null) {
+          try {
+            result.items[key].push(JSON.parse(text.slice(elementStart, i + 1)));
+          } catch {
+            // Not valid JSON after all; leave it out
+          }
+          elementStart = -1;
+        }
+        break;
+    }
+  }
+
+  // A string field still arriving
+  if (stringStart >= 0 && stack.length === 1 && afterColon && key !== null) {
+    result.strings[key] = decodePartialString(text.slice(stringStart + 1));
+  }
+
+  return result;
+}
@@ -0,0 +1,86 @@
+import type { DocumentVersion, VersionStorage } from "../types";
+
+const STORE_NAME = "versions";
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Version storage kept in the browser's IndexedDB, one record per version
+ * indexed by document ID. Falls back to memory where IndexedDB isn't
+ * available (e.g. server rendering).
+ *
+ * @example
+ * ```ts
+ * const storage = createIndexedDBVersionStorage("my-app-versions");
+ * const { versions } = useVersionHistory(editor, { documentId, storage });
+ * ```
+ */
+export function createIndexedDBVersionStorage(
+  databaseName = "dedit-versions",
+): VersionStorage {
+  if (typeof indexedDB === "undefined") {
+    return createMemoryVersionStorage();
+  }
+
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: "id",
+        });
+        store.createIndex("documentId", "documentId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async list(documentId) {
+      const versions = await store("readonly");
+      return promisify<DocumentVersion[]>(
+        versions.index("documentId").getAll(documentId),
+      );
+    },
+    async save(version) {
+      const versions = await store("readwrite");
+      await promisify(versions.put(version));
+    },
+    async remove(_documentId, versionId) {
+      const versions = await store("readwrite");
+      await promisify(versions.delete(versionId));
+    },
+  };
+}
+
+/**
+ * Version storage that only lasts as long as the page
+ */
+export function createMemoryVersionStorage(): VersionStorage {
+  const versions = new Map<string, DocumentVersion>();
+
+  return {
+    async list(documentId) {
+      return Array.from(versions.values()).filter(
+        (version) => version.documentId === documentId,
+      );
+    },
+    async save(version) {
+      versions.set(version.id, version);
+    },
+    async remove(_documentId, versionId) {
+      versions.delete(versionId);
+    },
+  };
+}